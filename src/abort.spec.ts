@@ -0,0 +1,125 @@
+import test from "ava";
+import { AbortedError, TimeoutError } from "./abort";
+import { Result } from "./structs/result";
+
+class NetworkError extends Error {}
+
+const delay = <T>(ms: number, value: T, signal?: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => resolve(value), ms);
+
+        signal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        });
+    });
+
+test("fromAsync resolves before the timeout", async (t) => {
+    const result = await Result.fromAsync(
+        [NetworkError],
+        (signal) => delay(1, "done", signal),
+        { timeoutMs: 1000 }
+    );
+
+    t.is(result.unwrap(), "done");
+});
+
+test("fromAsync times out and aborts the signal", async (t) => {
+    let received: AbortSignal | undefined;
+
+    const result = await Result.fromAsync(
+        [NetworkError],
+        (signal) => {
+            received = signal;
+
+            return delay(1000, "late", signal);
+        },
+        { timeoutMs: 5 }
+    );
+
+    const error = result.err().unwrap();
+
+    t.true(error instanceof TimeoutError);
+    t.is(error.message, "Timed out after 5ms");
+    t.true(received?.aborted);
+    t.is(received?.reason, error);
+});
+
+test("unsafeFromAsync discards late results", async (t) => {
+    let settled = false;
+
+    const result = await Result.unsafeFromAsync(
+        () =>
+            delay(20, "late").then((value) => {
+                settled = true;
+
+                return value;
+            }),
+        { timeoutMs: 1 }
+    );
+
+    t.true(result.err().unwrap() instanceof TimeoutError);
+    t.false(settled);
+
+    await delay(30, undefined);
+
+    t.true(settled);
+    t.true(result.isErr());
+});
+
+test("fromAsync is aborted by a signal", async (t) => {
+    const controller = new AbortController();
+    const reason = new Error("shutting down");
+
+    const pending = Result.fromAsync(
+        [NetworkError],
+        (signal) => delay(1000, "late", signal),
+        { signal: controller.signal }
+    );
+
+    controller.abort(reason);
+
+    const error = (await pending).err().unwrap();
+
+    t.true(error instanceof AbortedError);
+    t.is(error.cause, reason);
+});
+
+test("fromAsync does not run when the signal is already aborted", async (t) => {
+    const controller = new AbortController();
+    controller.abort();
+
+    let called = false;
+    const result = await Result.unsafeFromAsync(
+        async () => {
+            called = true;
+        },
+        { signal: controller.signal, timeoutMs: 10 }
+    );
+
+    t.false(called);
+    t.true(result.err().unwrap() instanceof AbortedError);
+});
+
+test("fromAsync with options still rethrows unexpected errors", async (t) => {
+    await t.throwsAsync(
+        Result.fromAsync(
+            [NetworkError],
+            async () => {
+                throw new TypeError();
+            },
+            { timeoutMs: 100 }
+        ),
+        { instanceOf: TypeError }
+    );
+
+    const expected = await Result.fromAsync(
+        [NetworkError],
+        async () => {
+            throw new NetworkError();
+        },
+        { timeoutMs: 100 }
+    );
+
+    t.true(expected.err().unwrap() instanceof NetworkError);
+});
@@ -0,0 +1,109 @@
+import { TaggedError } from "./errors";
+import { Result } from "./structs/result";
+
+/**
+ * Options accepted by `Result.fromAsync` and `Result.unsafeFromAsync` to limit
+ * how long an operation may run.
+ */
+export interface AbortOptions {
+    /**
+     * The number of milliseconds after which the operation is aborted with a `TimeoutError`.
+     */
+    timeoutMs?: number;
+    /**
+     * A signal that aborts the operation with an `AbortedError`.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * The error returned when an operation does not complete within its `timeoutMs`.
+ */
+export class TimeoutError extends TaggedError("TimeoutError")<{
+    timeoutMs: number;
+}> {
+    constructor(timeoutMs: number) {
+        super({ timeoutMs, message: `Timed out after ${timeoutMs}ms` });
+    }
+}
+
+/**
+ * The error returned when an operation is aborted through its `signal`.
+ * The abort reason is kept as the `cause`.
+ */
+export class AbortedError extends TaggedError("AbortedError") {
+    constructor(reason?: unknown) {
+        super({ message: "The operation was aborted", cause: reason });
+    }
+}
+
+/**
+ * Keeps a promise from settling when it rejects after the signal was aborted.
+ * `abortable` discards such rejections anyway, and they would otherwise create
+ * Errs and fire hooks for failures nobody sees.
+ * @param signal - The signal passed to the operation.
+ * @param promise - The promise returned by the operation.
+ * @returns A promise settling like the given one, unless it rejects after the abort.
+ */
+export function settleUnlessAborted<T>(
+    signal: AbortSignal,
+    promise: Promise<T>
+): Promise<T> {
+    return promise.catch((error: unknown) =>
+        signal.aborted ? new Promise<never>(() => {}) : Promise.reject(error)
+    );
+}
+
+/**
+ * Runs an operation returning a Result, racing it against a timeout and an abort signal.
+ * The operation receives a signal that is aborted when either of them fires, and any
+ * result it produces afterwards is discarded.
+ * @param options - The timeout and signal.
+ * @param run - The operation to run.
+ * @returns A promise resolving to the operation's Result, or to an Err with a `TimeoutError` or `AbortedError`.
+ */
+export function abortable<T, E extends Error>(
+    options: AbortOptions,
+    run: (signal: AbortSignal) => Promise<Result<T, E>>
+): Promise<Result<T, E | TimeoutError | AbortedError>> {
+    const { timeoutMs, signal } = options;
+
+    if (signal?.aborted) {
+        return Promise.resolve(Result.Err(new AbortedError(signal.reason)));
+    }
+
+    const controller = new AbortController();
+
+    return new Promise((resolve, reject) => {
+        const abort = (error: TimeoutError | AbortedError) => {
+            cleanup();
+            controller.abort(error);
+            resolve(Result.Err(error));
+        };
+        const onAbort = () => abort(new AbortedError(signal?.reason));
+        const timer =
+            timeoutMs === undefined
+                ? undefined
+                : setTimeout(
+                      () => abort(new TimeoutError(timeoutMs)),
+                      timeoutMs
+                  );
+        const cleanup = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+        };
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        run(controller.signal).then(
+            (result) => {
+                cleanup();
+                resolve(result);
+            },
+            (error) => {
+                cleanup();
+                reject(error);
+            }
+        );
+    });
+}
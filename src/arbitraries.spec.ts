@@ -0,0 +1,102 @@
+import test from "ava";
+import { fc, testProp } from "@fast-check/ava";
+import {
+    assertLaws,
+    eitherArb,
+    eitherLaws,
+    laws,
+    LawSubject,
+    optionArb,
+    optionLaws,
+    resultArb,
+    resultLaws,
+} from "./arbitraries";
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+const errors = fc.string().map((message) => new Error(message));
+
+testProp("optionArb", [optionArb(fc.integer())], (t, option) => {
+    t.true(Option.isOption(option));
+    t.true(option.isNone() || Number.isInteger(option.unwrap()));
+});
+
+testProp("resultArb", [resultArb(fc.integer(), errors)], (t, result) => {
+    t.true(Result.isResult(result));
+    t.true(
+        result.isOk()
+            ? Number.isInteger(result.unwrap())
+            : result.err().unwrap() instanceof Error
+    );
+});
+
+testProp("eitherArb", [eitherArb(fc.string(), fc.integer())], (t, either) => {
+    t.true(Either.isEither(either));
+    t.true(
+        either.isLeft()
+            ? typeof either.unwrapLeft() === "string"
+            : Number.isInteger(either.unwrapRight())
+    );
+});
+
+test("variant weights", (t) => {
+    const options = fc.sample(optionArb(fc.integer(), { none: 0 }), 100);
+    const results = fc.sample(resultArb(fc.integer(), errors, { ok: 0 }), 100);
+    const eithers = fc.sample(
+        eitherArb(fc.string(), fc.integer(), { left: 0 }),
+        100
+    );
+
+    t.true(options.every((option) => option.isSome()));
+    t.true(results.every((result) => result.isErr()));
+    t.true(eithers.every((either) => either.isRight()));
+});
+
+test("variants are generated with both default weights", (t) => {
+    const options = fc.sample(optionArb(fc.integer()), 100);
+
+    t.true(options.some((option) => option.isSome()));
+    t.true(options.some((option) => option.isNone()));
+});
+
+test("Option obeys the laws", (t) => {
+    t.notThrows(() => assertLaws(optionLaws(fc.anything())));
+});
+
+test("Result obeys the laws", (t) => {
+    t.notThrows(() => assertLaws(resultLaws(fc.anything(), errors)));
+});
+
+test("Either obeys the laws", (t) => {
+    t.notThrows(() => assertLaws(eitherLaws(fc.anything(), fc.anything())));
+});
+
+test("laws can be run one by one", (t) => {
+    const properties = laws(optionLaws(fc.integer()));
+
+    t.deepEqual(Object.keys(properties), [
+        "functor identity",
+        "functor composition",
+        "monad left identity",
+        "monad right identity",
+        "monad associativity",
+    ]);
+
+    for (const property of Object.values(properties)) {
+        t.notThrows(() => fc.assert(property));
+    }
+});
+
+test("law violations name the law", (t) => {
+    // A map that drops the contained value breaks functor identity.
+    const broken: LawSubject<Option<number>, number> = {
+        ...optionLaws(fc.integer()),
+        map: (option) => option.and(Option.None()),
+    };
+
+    const error = t.throws(() => assertLaws(broken));
+
+    t.is(error?.message, "The functor identity law does not hold");
+    t.true(error?.cause instanceof Error);
+});
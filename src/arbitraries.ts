@@ -0,0 +1,237 @@
+import fc, { Arbitrary, IRawProperty, Parameters } from "fast-check";
+import { deepEqual } from "./equality";
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+/**
+ * Generates Options containing values from an arbitrary.
+ * @param arb - The arbitrary of the Some values.
+ * @param weights - The relative frequency of each variant. Both default to `1`.
+ * @returns An arbitrary of Options.
+ */
+export function optionArb<T>(
+    arb: Arbitrary<T>,
+    weights: { some?: number; none?: number } = {}
+): Arbitrary<Option<T>> {
+    return fc.oneof(
+        {
+            arbitrary: arb.map((value): Option<T> => Option.Some(value)),
+            weight: weights.some ?? 1,
+        },
+        {
+            arbitrary: fc.constant(null).map((): Option<T> => Option.None()),
+            weight: weights.none ?? 1,
+        }
+    );
+}
+
+/**
+ * Generates Results containing values and errors from arbitraries.
+ * @param okArb - The arbitrary of the Ok values.
+ * @param errArb - The arbitrary of the errors.
+ * @param weights - The relative frequency of each variant. Both default to `1`.
+ * @returns An arbitrary of Results.
+ */
+export function resultArb<T, E extends Error>(
+    okArb: Arbitrary<T>,
+    errArb: Arbitrary<E>,
+    weights: { ok?: number; err?: number } = {}
+): Arbitrary<Result<T, E>> {
+    return fc.oneof(
+        {
+            arbitrary: okArb.map((value): Result<T, E> => Result.Ok(value)),
+            weight: weights.ok ?? 1,
+        },
+        {
+            arbitrary: errArb.map((error): Result<T, E> => Result.Err(error)),
+            weight: weights.err ?? 1,
+        }
+    );
+}
+
+/**
+ * Generates `Either` instances containing values from arbitraries.
+ * @param leftArb - The arbitrary of the left values.
+ * @param rightArb - The arbitrary of the right values.
+ * @param weights - The relative frequency of each variant. Both default to `1`.
+ * @returns An arbitrary of `Either` instances.
+ */
+export function eitherArb<L, R>(
+    leftArb: Arbitrary<L>,
+    rightArb: Arbitrary<R>,
+    weights: { left?: number; right?: number } = {}
+): Arbitrary<Either<L, R>> {
+    return fc.oneof(
+        {
+            arbitrary: leftArb.map((value): Either<L, R> => Either.Left(value)),
+            weight: weights.left ?? 1,
+        },
+        {
+            arbitrary: rightArb.map((value): Either<L, R> =>
+                Either.Right(value)
+            ),
+            weight: weights.right ?? 1,
+        }
+    );
+}
+
+/**
+ * A wrapper type to check the functor and monad laws against, described by
+ * its operations on values of type `V`.
+ */
+export interface LawSubject<M, V> {
+    /** An arbitrary of wrapped values, such as `optionArb(fc.integer())`. */
+    wrapped: Arbitrary<M>;
+    /** An arbitrary of the values contained in the wrapper, such as `fc.integer()`. */
+    values: Arbitrary<V>;
+    /** Wraps a value, such as `Option.Some`. */
+    of: (value: V) => M;
+    map: (wrapped: M, fn: (value: V) => V) => M;
+    andThen: (wrapped: M, fn: (value: V) => M) => M;
+    /** Compares two wrapped values. Defaults to structural equality. */
+    equals?: (a: M, b: M) => boolean;
+}
+
+/**
+ * The name of a law checked by `laws`.
+ */
+export type LawName =
+    | "functor identity"
+    | "functor composition"
+    | "monad left identity"
+    | "monad right identity"
+    | "monad associativity";
+
+/**
+ * Builds properties checking that a wrapper type obeys the functor and monad laws:
+ *
+ * - functor identity: `map(m, x => x)` equals `m`
+ * - functor composition: `map(map(m, f), g)` equals `map(m, x => g(f(x)))`
+ * - monad left identity: `andThen(of(a), k)` equals `k(a)`
+ * - monad right identity: `andThen(m, of)` equals `m`
+ * - monad associativity: `andThen(andThen(m, k), h)` equals `andThen(m, x => andThen(k(x), h))`
+ *
+ * Example:
+ * ```
+ * for (const [name, property] of Object.entries(laws(subject))) {
+ *   test(name, () => fc.assert(property));
+ * }
+ * ```
+ * @param subject - The wrapper type to check.
+ * @returns A property per law, to run with `fc.assert`.
+ */
+export function laws<M, V>(
+    subject: LawSubject<M, V>
+): Record<LawName, IRawProperty<unknown[]>> {
+    const { wrapped, values, of, map, andThen, equals = deepEqual } = subject;
+    const fn = fc.func<[V], V>(values);
+    const kleisli = fc.func<[V], M>(wrapped);
+
+    return {
+        "functor identity": fc.property(wrapped, (m) =>
+            equals(
+                map(m, (x) => x),
+                m
+            )
+        ),
+        "functor composition": fc.property(wrapped, fn, fn, (m, f, g) =>
+            equals(
+                map(map(m, f), g),
+                map(m, (x) => g(f(x)))
+            )
+        ),
+        "monad left identity": fc.property(values, kleisli, (a, k) =>
+            equals(andThen(of(a), k), k(a))
+        ),
+        "monad right identity": fc.property(wrapped, (m) =>
+            equals(andThen(m, of), m)
+        ),
+        "monad associativity": fc.property(
+            wrapped,
+            kleisli,
+            kleisli,
+            (m, k, h) =>
+                equals(
+                    andThen(andThen(m, k), h),
+                    andThen(m, (x) => andThen(k(x), h))
+                )
+        ),
+    } as Record<LawName, IRawProperty<unknown[]>>;
+}
+
+/**
+ * Checks that a wrapper type obeys the functor and monad laws.
+ * @param subject - The wrapper type to check.
+ * @param parameters - Parameters passed to `fc.assert`.
+ * @throws Error naming the first law that does not hold, with the fast-check failure as its cause.
+ * @see laws
+ */
+export function assertLaws<M, V>(
+    subject: LawSubject<M, V>,
+    parameters?: Parameters<unknown[]>
+): void {
+    for (const [name, property] of Object.entries(laws(subject))) {
+        try {
+            fc.assert(property, parameters);
+        } catch (error) {
+            throw new Error(`The ${name} law does not hold`, { cause: error });
+        }
+    }
+}
+
+/**
+ * Describes Options for `laws` and `assertLaws`.
+ * @param values - An arbitrary of the values contained in the Options.
+ * @returns The Option law subject.
+ */
+export function optionLaws<T>(values: Arbitrary<T>): LawSubject<Option<T>, T> {
+    return {
+        wrapped: optionArb(values),
+        values,
+        of: (value) => Option.Some(value),
+        map: (option, fn) => option.map(fn),
+        andThen: (option, fn) => option.andThen(fn),
+        equals: (a, b) => a.equals(b),
+    };
+}
+
+/**
+ * Describes Results for `laws` and `assertLaws`.
+ * @param values - An arbitrary of the Ok values.
+ * @param errors - An arbitrary of the errors.
+ * @returns The Result law subject.
+ */
+export function resultLaws<T, E extends Error>(
+    values: Arbitrary<T>,
+    errors: Arbitrary<E>
+): LawSubject<Result<T, E>, T> {
+    return {
+        wrapped: resultArb(values, errors),
+        values,
+        of: (value) => Result.Ok(value),
+        map: (result, fn) => result.map(fn),
+        andThen: (result, fn) => result.andThen(fn),
+        equals: (a, b) => a.equals(b),
+    };
+}
+
+/**
+ * Describes `Either` instances for `laws` and `assertLaws`.
+ * @param lefts - An arbitrary of the left values.
+ * @param rights - An arbitrary of the right values.
+ * @returns The `Either` law subject.
+ */
+export function eitherLaws<L, R>(
+    lefts: Arbitrary<L>,
+    rights: Arbitrary<R>
+): LawSubject<Either<L, R>, R> {
+    return {
+        wrapped: eitherArb(lefts, rights),
+        values: rights,
+        of: (value) => Either.Right(value),
+        map: (either, fn) => either.map(fn),
+        andThen: (either, fn) => either.andThen(fn),
+        equals: (a, b) => a.equals(b),
+    };
+}
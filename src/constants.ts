@@ -1,6 +1,18 @@
-export const SYM_LEFT: unique symbol = Symbol("@teav/LEFT");
-export const SYM_RIGHT: unique symbol = Symbol("@teav/RIGHT");
-export const SYM_SOME: unique symbol = Symbol("@teav/SOME");
-export const SYM_NONE: unique symbol = Symbol("@teav/NONE");
-export const SYM_OK: unique symbol = Symbol("@teav/OK");
-export const SYM_ERR: unique symbol = Symbol("@teav/ERR");
+// Brands are registered in the global symbol registry so that values created by
+// another copy of teav, or in another realm, are still recognized. The `v1`
+// segment is bumped whenever the shape of branded instances changes
+// incompatibly, so that copies only recognize each other when they agree on it.
+export const SYM_LEFT: unique symbol = Symbol.for("@teav/v1/LEFT");
+export const SYM_RIGHT: unique symbol = Symbol.for("@teav/v1/RIGHT");
+export const SYM_SOME: unique symbol = Symbol.for("@teav/v1/SOME");
+export const SYM_NONE: unique symbol = Symbol.for("@teav/v1/NONE");
+export const SYM_OK: unique symbol = Symbol.for("@teav/v1/OK");
+export const SYM_ERR: unique symbol = Symbol.for("@teav/v1/ERR");
+export const SYM_VALID: unique symbol = Symbol.for("@teav/v1/VALID");
+export const SYM_INVALID: unique symbol = Symbol.for("@teav/v1/INVALID");
+
+// The symbol used by Node's `util.inspect` to find custom inspection functions.
+// It is registered in the global symbol registry, so `node:util` does not need to be imported.
+export const SYM_INSPECT: unique symbol = Symbol.for(
+    "nodejs.util.inspect.custom"
+);
@@ -0,0 +1,69 @@
+import test from "ava";
+import { isDebugMode, originOf, setDebugMode, VariantOrigin } from "./debug";
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+test.afterEach.always(() => setDebugMode(false));
+
+const findNickname = (): Option<string> => Option.None();
+
+test.serial("debug mode is disabled by default", (t) => {
+    t.false(isDebugMode());
+    t.is(originOf(Option.None()), undefined);
+    t.is(t.throws(() => Option.None().unwrap())?.cause, undefined);
+});
+
+test.serial("panics on None have the creation site as cause", (t) => {
+    setDebugMode(true);
+
+    const nickname = findNickname();
+    const error = t.throws(() => nickname.expect("no nickname"));
+
+    t.is(error?.message, "no nickname");
+    t.true(error?.cause instanceof VariantOrigin);
+    t.is((error?.cause as Error).message, "None was created here");
+    t.regex((error?.cause as Error).stack ?? "", /findNickname/);
+});
+
+test.serial("panics on Either have the creation site as cause", (t) => {
+    setDebugMode(true);
+
+    const left = Either.Left("denied");
+
+    t.is(t.throws(() => left.unwrapRight())?.cause, originOf(left));
+    t.is((originOf(left) as Error).message, "Left was created here");
+    t.is(t.throws(() => Either.Right(1).unwrapLeft())?.cause, undefined);
+});
+
+test.serial("Err records its creation site", (t) => {
+    setDebugMode(true);
+
+    const err = Result.Err(new Error());
+
+    t.true(originOf(err) instanceof VariantOrigin);
+    t.is(originOf(Result.Ok(1)), undefined);
+    t.regex(originOf(err)?.stack ?? "", /debug\.spec/);
+});
+
+test.serial("combinators keep the creation site", (t) => {
+    setDebugMode(true);
+
+    const findUser = (): Option<{ name: string }> => Option.None();
+    const later = () => findUser().map((user) => user.name);
+    const error = t.throws(() => later().unwrap());
+
+    t.regex((error?.cause as Error).stack ?? "", /findUser/);
+
+    const none = findUser();
+
+    t.is(originOf(none.zip(Option.Some(1))), originOf(none));
+    t.is(originOf(Option.Some(1).zip(none)), originOf(none));
+    t.is(originOf(none.toEither("missing")), originOf(none));
+
+    const left = Either.Left("denied");
+
+    t.is(originOf(left.mapLeft((reason) => reason.length)), originOf(left));
+    t.is(originOf(left.map((value) => value)), originOf(left));
+    t.is(originOf(left.right()), originOf(left));
+});
@@ -0,0 +1,103 @@
+/**
+ * The error recording where an Err, None or Left was created while debug mode
+ * is enabled. Its stack points at the code that created the variant.
+ */
+export class VariantOrigin extends Error {
+    constructor(variant: "Err" | "None" | "Left") {
+        super(`${variant} was created here`);
+
+        this.name = "VariantOrigin";
+    }
+}
+
+let enabled =
+    typeof process !== "undefined" &&
+    ["1", "true"].includes(process.env?.TEAV_DEBUG ?? "");
+
+const origins = new WeakMap<object, VariantOrigin>();
+
+/**
+ * Enables or disables debug mode. In debug mode, `Result.Err`, `Option.None` and
+ * `Either.Left` record where they were created, and the errors thrown by
+ * `Option.expect`, `Option.unwrap`, `Either.expectLeft`, `Either.expectRight`,
+ * `Either.unwrapLeft` and `Either.unwrapRight` have that origin as their `cause`.
+ *
+ * Debug mode is enabled on startup when the `TEAV_DEBUG` environment variable is `1` or `true`.
+ * Recording origins captures a stack trace for every variant, so it should not be
+ * enabled in production.
+ * @param value - Whether debug mode is enabled.
+ */
+export function setDebugMode(value: boolean): void {
+    enabled = value;
+}
+
+/**
+ * Checks if debug mode is enabled.
+ * @returns true if debug mode is enabled, false otherwise.
+ * @see setDebugMode
+ */
+export function isDebugMode(): boolean {
+    return enabled;
+}
+
+/**
+ * Returns where an Err, None or Left was created.
+ * @param variant - A Result, Option or Either.
+ * @returns The origin of the variant, or `undefined` if it was not created in debug mode.
+ */
+export function originOf(variant: object): VariantOrigin | undefined {
+    return origins.get(variant);
+}
+
+/**
+ * Records where a variant was created, if debug mode is enabled.
+ * @param variant - The variant that was created.
+ * @param name - The name of the variant.
+ * @param constructorOpt - The function that created the variant. It and the frames above it are left out of the origin.
+ */
+export function recordOrigin(
+    variant: object,
+    name: "Err" | "None" | "Left",
+    constructorOpt: Function
+): void {
+    if (!enabled) {
+        return;
+    }
+
+    const origin = new VariantOrigin(name);
+
+    Error.captureStackTrace?.(origin, constructorOpt);
+    origins.set(variant, origin);
+}
+
+/**
+ * Gives a variant derived from another one the origin of the original, so that
+ * combinators which build a new Err, None or Left keep the original creation site.
+ * @param from - The variant the new one was derived from.
+ * @param to - The derived variant.
+ * @returns The derived variant.
+ */
+export function carryOrigin<V extends object>(from: object, to: V): V {
+    const origin = origins.get(from);
+
+    if (origin !== undefined) {
+        origins.set(to, origin);
+    }
+
+    return to;
+}
+
+/**
+ * Creates the error thrown when a variant is unwrapped, with the origin of the
+ * variant as its `cause` if it is known.
+ * @param message - The error message.
+ * @param variant - The variant that was unwrapped.
+ * @returns The error to throw.
+ */
+export function panicError(message: string, variant: object): Error {
+    const origin = origins.get(variant);
+
+    return origin === undefined
+        ? new Error(message)
+        : new Error(message, { cause: origin });
+}
@@ -0,0 +1,170 @@
+import test from "ava";
+import { testProp, fc } from "@fast-check/ava";
+import { D, DecodeError, Decoder, Infer } from "./decoder";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+const User = D.object({
+    name: D.string,
+    age: D.refine(D.number, (age) => age >= 0, "Expected a non-negative age"),
+    role: D.literal("admin", "member"),
+    email: D.optional(D.string),
+    manager: D.nullable(D.string),
+    tags: D.array(D.string),
+});
+
+type User = Infer<typeof User>;
+
+const failuresOf = (result: Result<unknown, DecodeError>) =>
+    result.isErr() ? result.err().unwrap().failures : [];
+
+testProp("primitives", [fc.anything()], (t, v) => {
+    t.is(D.string.decode(v).isOk(), typeof v === "string");
+    t.is(D.number.decode(v).isOk(), typeof v === "number" && !Number.isNaN(v));
+    t.is(D.boolean.decode(v).isOk(), typeof v === "boolean");
+});
+
+test("primitive failures", (t) => {
+    t.deepEqual(failuresOf(D.string.decode(1)), [
+        { path: "$", message: "Expected a string, but got a number" },
+    ]);
+    t.deepEqual(failuresOf(D.number.decode([])), [
+        { path: "$", message: "Expected a number, but got an array" },
+    ]);
+    t.deepEqual(failuresOf(D.boolean.decode(null)), [
+        { path: "$", message: "Expected a boolean, but got null" },
+    ]);
+});
+
+test("literal", (t) => {
+    const decoder = D.literal("a", 1, null);
+
+    t.is(decoder.decode("a").unwrap(), "a");
+    t.is(decoder.decode(null).unwrap(), null);
+    t.deepEqual(failuresOf(decoder.decode("b")), [
+        { path: "$", message: 'Expected "a" or 1 or null, but got "b"' },
+    ]);
+});
+
+test("object", (t) => {
+    const user: User = User.decode({
+        name: "Ada",
+        age: 36,
+        role: "admin",
+        manager: null,
+        tags: ["math"],
+        extra: true,
+    }).unwrap();
+
+    t.deepEqual(user, {
+        name: "Ada",
+        age: 36,
+        role: "admin",
+        email: Option.None(),
+        manager: null,
+        tags: ["math"],
+    });
+});
+
+test("optional", (t) => {
+    const decoder = D.optional(D.number);
+
+    t.deepEqual(decoder.decode(undefined).unwrap(), Option.None());
+    t.deepEqual(decoder.decode(1).unwrap(), Option.Some(1));
+    t.true(decoder.decode("1").isErr());
+});
+
+test("every failure is reported with its path", (t) => {
+    const result = User.decode({
+        name: 1,
+        age: -1,
+        role: "owner",
+        email: "ada@example.com",
+        tags: ["math", 2, false],
+    });
+
+    t.deepEqual(failuresOf(result), [
+        { path: "$.name", message: "Expected a string, but got a number" },
+        { path: "$.age", message: "Expected a non-negative age" },
+        {
+            path: "$.role",
+            message: 'Expected "admin" or "member", but got "owner"',
+        },
+        { path: "$.manager", message: "Expected a string, but got undefined" },
+        { path: "$.tags[1]", message: "Expected a string, but got a number" },
+        { path: "$.tags[2]", message: "Expected a string, but got a boolean" },
+    ]);
+    t.is(
+        result.err().unwrap().message,
+        failuresOf(result)
+            .map((failure) => `${failure.message} at ${failure.path}`)
+            .join("; ")
+    );
+});
+
+test("paths of nested and non-identifier keys", (t) => {
+    const decoder = D.object({
+        "content-type": D.string,
+        items: D.array(D.object({ id: D.number })),
+    });
+
+    t.deepEqual(
+        failuresOf(decoder.decode({ items: [{ id: 1 }, { id: "2" }] })),
+        [
+            {
+                path: '$["content-type"]',
+                message: "Expected a string, but got undefined",
+            },
+            {
+                path: "$.items[1].id",
+                message: "Expected a number, but got a string",
+            },
+        ]
+    );
+});
+
+test("object ignores inherited fields", (t) => {
+    t.true(
+        D.object({ toString: D.optional(D.string) })
+            .decode({})
+            .isOk()
+    );
+    t.deepEqual(failuresOf(D.object({}).decode([])), [
+        { path: "$", message: "Expected an object, but got an array" },
+    ]);
+});
+
+test("union", (t) => {
+    const decoder = D.union(D.string, D.array(D.number));
+    const value: string | number[] = decoder.decode([1]).unwrap();
+
+    t.deepEqual(value, [1]);
+    t.is(decoder.decode("a").unwrap(), "a");
+    t.deepEqual(failuresOf(decoder.decode(["a"])), [
+        { path: "$", message: "Expected a string, but got an array" },
+        { path: "$[0]", message: "Expected a number, but got a string" },
+    ]);
+});
+
+test("map and custom decoders", (t) => {
+    const date = new Decoder<Date>((input, path) =>
+        D.string
+            .decodeAt(input, path)
+            .map((text) => new Date(text))
+            .andThen((date) =>
+                Number.isNaN(date.getTime())
+                    ? Result.Err(
+                          new DecodeError([{ path, message: "Invalid date" }])
+                      )
+                    : Result.Ok(date)
+            )
+    );
+    const decoder = D.object({ at: date.map((d) => d.getTime()) });
+
+    t.deepEqual(decoder.decode({ at: "1970-01-01T00:00:00Z" }).unwrap(), {
+        at: 0,
+    });
+    t.deepEqual(failuresOf(decoder.decode({ at: "later" })), [
+        { path: "$.at", message: "Invalid date" },
+    ]);
+});
@@ -0,0 +1,324 @@
+import { formatValue } from "./inspect";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+import { NonEmptyArray, Validated } from "./structs/validated";
+
+type Literal = string | number | boolean | bigint | null | undefined;
+
+/**
+ * A single reason why a value could not be decoded.
+ */
+export interface DecodeFailure {
+    /** The JSON path of the offending value, such as `$.items[2].name`. */
+    path: string;
+    message: string;
+}
+
+/**
+ * The error returned when a value cannot be decoded. It records every failure
+ * found in the value, not only the first one.
+ */
+export class DecodeError extends Error {
+    constructor(readonly failures: NonEmptyArray<DecodeFailure>) {
+        super(
+            failures
+                .map((failure) => `${failure.message} at ${failure.path}`)
+                .join("; ")
+        );
+
+        this.name = "DecodeError";
+    }
+}
+
+/**
+ * The type of the values produced by a decoder.
+ *
+ * Example:
+ * ```
+ * const User = D.object({ name: D.string, age: D.optional(D.number) });
+ * type User = Infer<typeof User>; // { name: string; age: Option<number> }
+ * ```
+ */
+export type Infer<D> = D extends Decoder<infer T> ? T : never;
+
+/**
+ * The `Decoder` class checks that an unknown value, such as a parsed JSON payload,
+ * has the expected shape, and converts it into a typed value. Decoders are built
+ * from the constructors in `D` and composed into larger decoders.
+ *
+ * Example:
+ * ```
+ * const User = D.object({
+ *   name: D.string,
+ *   role: D.literal("admin", "member"),
+ *   tags: D.array(D.string),
+ * });
+ *
+ * const user = User.decode(JSON.parse(body)); // Result<{ ... }, DecodeError>
+ * ```
+ */
+export class Decoder<T> {
+    /**
+     * Creates a custom decoder.
+     * @param run - Decodes a value found at a JSON path. Failures should be reported with that path.
+     */
+    constructor(
+        private readonly run: (
+            input: unknown,
+            path: string
+        ) => Result<T, DecodeError>
+    ) {}
+
+    /**
+     * Decodes a value.
+     * @param input - The value to decode.
+     * @returns Ok with the decoded value, or Err with every failure found in the value.
+     */
+    decode(input: unknown): Result<T, DecodeError> {
+        return this.run(input, "$");
+    }
+
+    /**
+     * Decodes a value found at a JSON path, for use in custom decoders.
+     * @param input - The value to decode.
+     * @param path - The JSON path of the value.
+     * @returns Ok with the decoded value, or Err with every failure found in the value.
+     */
+    decodeAt(input: unknown, path: string): Result<T, DecodeError> {
+        return this.run(input, path);
+    }
+
+    /**
+     * Creates a decoder that transforms the decoded values.
+     * @param fn - The function to apply to the decoded values.
+     * @returns A new decoder.
+     */
+    map<U>(fn: (value: T) => U): Decoder<U> {
+        return new Decoder((input, path) => this.run(input, path).map(fn));
+    }
+}
+
+function fail(path: string, message: string): Result<never, DecodeError> {
+    return Result.Err(new DecodeError([{ path, message }]));
+}
+
+function describeType(input: unknown): string {
+    if (input === null || input === undefined) {
+        return String(input);
+    }
+
+    if (Array.isArray(input)) {
+        return "an array";
+    }
+
+    const type = typeof input;
+
+    return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+function expected(
+    path: string,
+    description: string,
+    input: unknown
+): Result<never, DecodeError> {
+    return fail(
+        path,
+        `Expected ${description}, but got ${describeType(input)}`
+    );
+}
+
+function collect<T>(
+    results:
+        | ReadonlyArray<Result<unknown, DecodeError>>
+        | Record<string, Result<unknown, DecodeError>>
+): Result<T, DecodeError> {
+    const validated = Validated.all(results);
+
+    return validated.isValid()
+        ? Result.Ok(validated.unwrap() as T)
+        : Result.Err(
+              new DecodeError(
+                  validated
+                      .errors()
+                      .flatMap(
+                          (error) => error.failures
+                      ) as NonEmptyArray<DecodeFailure>
+              )
+          );
+}
+
+function pathOf(path: string, key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key)
+        ? `${path}.${key}`
+        : `${path}[${JSON.stringify(key)}]`;
+}
+
+function primitive<T>(
+    description: string,
+    guard: (input: unknown) => input is T
+): Decoder<T> {
+    return new Decoder((input, path) =>
+        guard(input) ? Result.Ok(input) : expected(path, description, input)
+    );
+}
+
+const string = primitive(
+    "a string",
+    (input): input is string => typeof input === "string"
+);
+
+const number = primitive(
+    "a number",
+    (input): input is number =>
+        typeof input === "number" && !Number.isNaN(input)
+);
+
+const boolean = primitive(
+    "a boolean",
+    (input): input is boolean => typeof input === "boolean"
+);
+
+function literal<const L extends readonly [Literal, ...Literal[]]>(
+    ...values: L
+): Decoder<L[number]> {
+    const description = values.map(formatValue).join(" or ");
+
+    return new Decoder((input, path) =>
+        values.includes(input as Literal)
+            ? Result.Ok(input as L[number])
+            : fail(
+                  path,
+                  `Expected ${description}, but got ${formatValue(input)}`
+              )
+    );
+}
+
+function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+    return new Decoder((input, path) => {
+        if (!Array.isArray(input)) {
+            return expected(path, "an array", input);
+        }
+
+        return collect(
+            input.map((item, i) => decoder.decodeAt(item, `${path}[${i}]`))
+        );
+    });
+}
+
+function object<S extends Record<string, Decoder<unknown>>>(
+    shape: S
+): Decoder<{ [K in keyof S]: Infer<S[K]> }> {
+    return new Decoder((input, path) => {
+        if (
+            typeof input !== "object" ||
+            input === null ||
+            Array.isArray(input)
+        ) {
+            return expected(path, "an object", input);
+        }
+
+        return collect(
+            Object.fromEntries(
+                Object.entries(shape).map(([key, decoder]) => [
+                    key,
+                    decoder.decodeAt(
+                        Object.prototype.hasOwnProperty.call(input, key)
+                            ? (input as Record<string, unknown>)[key]
+                            : undefined,
+                        pathOf(path, key)
+                    ),
+                ])
+            )
+        );
+    });
+}
+
+function union<
+    const Ds extends readonly [Decoder<unknown>, ...Decoder<unknown>[]],
+>(...decoders: Ds): Decoder<Infer<Ds[number]>> {
+    return new Decoder((input, path) => {
+        const failures: DecodeFailure[] = [];
+
+        for (const decoder of decoders) {
+            const result = decoder.decodeAt(input, path);
+
+            if (result.isOk()) {
+                return result as Result<Infer<Ds[number]>, DecodeError>;
+            }
+
+            failures.push(...result.err().unwrap().failures);
+        }
+
+        return Result.Err(
+            new DecodeError(failures as NonEmptyArray<DecodeFailure>)
+        );
+    });
+}
+
+function optional<T>(decoder: Decoder<T>): Decoder<Option<T>> {
+    return new Decoder((input, path) =>
+        input === undefined
+            ? Result.Ok(Option.None())
+            : decoder
+                  .decodeAt(input, path)
+                  .map((value): Option<T> => Option.Some(value))
+    );
+}
+
+function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+    return new Decoder((input, path) =>
+        input === null ? Result.Ok(null) : decoder.decodeAt(input, path)
+    );
+}
+
+function refine<T, U extends T>(
+    decoder: Decoder<T>,
+    predicate: (value: T) => value is U,
+    message: string
+): Decoder<U>;
+function refine<T>(
+    decoder: Decoder<T>,
+    predicate: (value: T) => boolean,
+    message: string
+): Decoder<T>;
+function refine<T>(
+    decoder: Decoder<T>,
+    predicate: (value: T) => boolean,
+    message: string
+): Decoder<T> {
+    return new Decoder((input, path) =>
+        decoder
+            .decodeAt(input, path)
+            .andThen((value) =>
+                predicate(value) ? Result.Ok(value) : fail(path, message)
+            )
+    );
+}
+
+/**
+ * Decoder constructors.
+ *
+ * - `D.string`, `D.number` and `D.boolean` decode primitives. `D.number` rejects `NaN`.
+ * - `D.literal(...values)` decodes one of the given literal values.
+ * - `D.array(d)` decodes an array whose items are decoded by `d`.
+ * - `D.object(shape)` decodes an object with the fields of `shape`. Unknown fields are dropped.
+ * - `D.union(...ds)` decodes a value with the first decoder that succeeds.
+ * - `D.optional(d)` decodes `undefined` or a missing field as `None`, and other values as `Some`.
+ * - `D.nullable(d)` decodes `null` as `null`, and other values with `d`.
+ * - `D.refine(d, predicate, message)` also requires the decoded value to satisfy a predicate.
+ *
+ * Arrays and objects report the failures of every item and field, and unions the
+ * failures of every alternative.
+ */
+export const D = {
+    string,
+    number,
+    boolean,
+    literal,
+    array,
+    object,
+    union,
+    optional,
+    nullable,
+    refine,
+};
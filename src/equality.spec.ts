@@ -0,0 +1,110 @@
+import test from "ava";
+import { testProp, fc } from "@fast-check/ava";
+import { deepEqual, hashValue } from "./equality";
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+testProp(
+    "structurally equal values are equal and have the same hash",
+    [fc.anything()],
+    (t, value) => {
+        const copy = structuredClone(value);
+
+        t.true(Option.Some(value).equals(Option.Some(copy)));
+        t.true(Result.Ok(value).equals(Result.Ok(copy)));
+        t.true(Either.Left(value).equals(Either.Left(copy)));
+        t.is(Option.Some(value).hash(), Option.Some(copy).hash());
+    }
+);
+
+test("equals compares variants and contents", (t) => {
+    t.true(Option.None().equals(Option.None()));
+    t.false(Option.Some(1).equals(Option.None()));
+    t.false(Option.Some({ a: 1 }).equals(Option.Some({ a: 2 })));
+    t.true(
+        Option.Some(Option.Some([1, { b: new Date(0) }])).equals(
+            Option.Some(Option.Some([1, { b: new Date(0) }]))
+        )
+    );
+    t.true(
+        Result.Err(new RangeError("out of range")).equals(
+            Result.Err(new RangeError("out of range"))
+        )
+    );
+    t.false(
+        Result.Err(new RangeError("a")).equals(Result.Err(new TypeError("a")))
+    );
+
+    const left: Either<number, number> = Either.Left(1);
+
+    t.false(left.equals(Either.Right(1)));
+});
+
+test("equals accepts a custom comparator", (t) => {
+    const sameLength = (a: string, b: string) => a.length === b.length;
+
+    t.true(Option.Some("abc").equals(Option.Some("xyz"), sameLength));
+    t.true(Either.Right<string>("ab").equals(Either.Right("cd"), sameLength));
+});
+
+test("deepEqual handles maps, sets and cycles", (t) => {
+    const a: Record<string, unknown> = { id: 1 };
+    const b: Record<string, unknown> = { id: 1 };
+    a.self = a;
+    b.self = b;
+
+    t.true(deepEqual(a, b));
+    t.true(deepEqual(new Set([1, 2]), new Set([2, 1])));
+    t.false(deepEqual(new Map([["a", 1]]), new Map([["a", 2]])));
+    t.is(hashValue(a), hashValue(b));
+    t.is(hashValue(new Set([1, 2])), hashValue(new Set([2, 1])));
+});
+
+test("compare orders None before Some and Err before Ok", (t) => {
+    const byNumber = (a: number, b: number) => a - b;
+    const options: Option<number>[] = [
+        Option.Some(3),
+        Option.None(),
+        Option.Some(1),
+    ];
+    const results: Result<number, Error>[] = [
+        Result.Ok(2),
+        Result.Err(new Error("x")),
+        Result.Ok(1),
+    ];
+    const eithers: Either<string, number>[] = [
+        Either.Right(1),
+        Either.Left("b"),
+        Either.Left("a"),
+    ];
+
+    t.deepEqual(options.sort((a, b) => a.compare(b, byNumber)).map(String), [
+        "None",
+        "Some(1)",
+        "Some(3)",
+    ]);
+    t.deepEqual(results.sort((a, b) => a.compare(b, byNumber)).map(String), [
+        "Err(Error: x)",
+        "Ok(1)",
+        "Ok(2)",
+    ]);
+    t.deepEqual(
+        eithers
+            .sort((a, b) =>
+                a.compare(b, byNumber, (x, y) => x.localeCompare(y))
+            )
+            .map(String),
+        ['Left("a")', 'Left("b")', "Right(1)"]
+    );
+});
+
+test("hash is stable", (t) => {
+    t.is(
+        Option.Some({ b: 2, a: 1 }).hash(),
+        Option.Some({ a: 1, b: 2 }).hash()
+    );
+    t.not(Option.Some(1).hash(), Result.Ok(1).hash());
+    t.is(Option.None().hash(), hashValue(Option.None()));
+    t.is(Result.Ok([1, "a"]).hash(), 3353114802);
+});
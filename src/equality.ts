@@ -0,0 +1,235 @@
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+function variantOf(value: unknown): [string, ...unknown[]] | undefined {
+    if (Result.isResult(value)) {
+        return value.isOk()
+            ? ["Ok", value.unwrap()]
+            : ["Err", value.err().unwrap()];
+    }
+
+    if (Option.isOption(value)) {
+        return value.isSome() ? ["Some", value.unwrap()] : ["None"];
+    }
+
+    if (Either.isEither(value)) {
+        return value.isLeft()
+            ? ["Left", value.unwrapLeft()]
+            : ["Right", value.unwrapRight()];
+    }
+
+    return undefined;
+}
+
+function errorFields(error: Error): Record<string, unknown> {
+    return {
+        ...error,
+        name: error.name,
+        message: error.message,
+        cause: error.cause,
+    };
+}
+
+function deepEqualWith(
+    a: unknown,
+    b: unknown,
+    seen: Map<object, object>
+): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+
+    if (
+        typeof a !== "object" ||
+        typeof b !== "object" ||
+        a === null ||
+        b === null
+    ) {
+        return false;
+    }
+
+    // Values currently being compared are assumed equal, so that cycles terminate.
+    if (seen.get(a) === b) {
+        return true;
+    }
+
+    seen.set(a, b);
+
+    const equal = objectsEqual(a, b, seen);
+
+    seen.delete(a);
+
+    return equal;
+}
+
+function objectsEqual(
+    a: object,
+    b: object,
+    seen: Map<object, object>
+): boolean {
+    const variantA = variantOf(a);
+    const variantB = variantOf(b);
+
+    if (variantA !== undefined || variantB !== undefined) {
+        return (
+            variantA !== undefined &&
+            variantB !== undefined &&
+            deepEqualWith(variantA, variantB, seen)
+        );
+    }
+
+    if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+        return false;
+    }
+
+    if (a instanceof Date) {
+        return Object.is(a.getTime(), (b as Date).getTime());
+    }
+
+    if (a instanceof RegExp) {
+        return String(a) === String(b);
+    }
+
+    if (a instanceof Error) {
+        return deepEqualWith(errorFields(a), errorFields(b as Error), seen);
+    }
+
+    if (a instanceof Map) {
+        const other = b as Map<unknown, unknown>;
+
+        return (
+            a.size === other.size &&
+            Array.from(a).every(
+                ([key, value]) =>
+                    other.has(key) && deepEqualWith(value, other.get(key), seen)
+            )
+        );
+    }
+
+    if (a instanceof Set) {
+        const others = Array.from(b as Set<unknown>);
+
+        return (
+            a.size === others.length &&
+            Array.from(a).every((value) =>
+                others.some((other) => deepEqualWith(value, other, seen))
+            )
+        );
+    }
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+
+    return (
+        keysA.length === keysB.length &&
+        keysA.every(
+            (key) =>
+                Object.prototype.hasOwnProperty.call(b, key) &&
+                deepEqualWith(
+                    (a as Record<string, unknown>)[key],
+                    (b as Record<string, unknown>)[key],
+                    seen
+                )
+        )
+    );
+}
+
+/**
+ * Checks if two values are structurally equal. Primitives are compared with
+ * `Object.is`. Arrays, plain objects, maps and sets are compared by content, dates
+ * by time, regular expressions by source and flags, and errors by name, message,
+ * cause and fields. Results, Options and Eithers are equal when they are the same
+ * variant with equal contents. Other objects must also share the same prototype.
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns true if the values are structurally equal, false otherwise.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+    return deepEqualWith(a, b, new Map());
+}
+
+function canonical(value: unknown, seen: Set<object>): string {
+    switch (typeof value) {
+        case "string":
+            return JSON.stringify(value);
+        case "bigint":
+            return `${value}n`;
+        case "symbol":
+            return value.toString();
+        case "function":
+            return `function ${value.name}`;
+        case "object":
+            break;
+        default:
+            return String(value);
+    }
+
+    if (value === null) {
+        return "null";
+    }
+
+    if (seen.has(value)) {
+        return "[Circular]";
+    }
+
+    seen.add(value);
+
+    const inner = (v: unknown) => canonical(v, seen);
+    const variant = variantOf(value);
+    let result: string;
+
+    if (variant !== undefined) {
+        const [name, ...contents] = variant;
+
+        result = `${name}(${contents.map(inner).join("")})`;
+    } else if (value instanceof Date) {
+        result = `Date(${value.getTime()})`;
+    } else if (value instanceof RegExp) {
+        result = `RegExp(${value})`;
+    } else if (value instanceof Error) {
+        result = `Error(${inner(errorFields(value))})`;
+    } else if (value instanceof Map) {
+        result = `Map(${Array.from(
+            value,
+            ([k, v]) => `${inner(k)}=>${inner(v)}`
+        )
+            .sort()
+            .join(",")})`;
+    } else if (value instanceof Set) {
+        result = `Set(${Array.from(value, inner).sort().join(",")})`;
+    } else if (Array.isArray(value)) {
+        result = `[${value.map(inner).join(",")}]`;
+    } else {
+        result = `{${Object.keys(value)
+            .sort()
+            .map(
+                (key) =>
+                    `${JSON.stringify(key)}:${inner((value as Record<string, unknown>)[key])}`
+            )
+            .join(",")}}`;
+    }
+
+    seen.delete(value);
+
+    return result;
+}
+
+/**
+ * Computes a stable hash of a value, consistent with `deepEqual`: structurally
+ * equal values have the same hash, in any process.
+ * @param value - The value to hash.
+ * @returns A 32-bit unsigned integer.
+ */
+export function hashValue(value: unknown): number {
+    const text = canonical(value, new Set());
+    // 32-bit FNV-1a.
+    let hash = 0x811c9dc5;
+
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+
+    return hash >>> 0;
+}
@@ -0,0 +1,177 @@
+import test from "ava";
+import { ContextError, TaggedError } from "./errors";
+import { AsyncResult } from "./structs/async-result";
+import { Result } from "./structs/result";
+
+class NotFoundError extends TaggedError("NotFound")<{ id: string }> {}
+class TimeoutError extends TaggedError("Timeout")<{ ms: number }> {}
+class UnknownError extends TaggedError("Unknown") {}
+
+const load = (
+    error: NotFoundError | TimeoutError | UnknownError
+): Result<string, NotFoundError | TimeoutError | UnknownError> =>
+    Result.Err(error);
+
+test("TaggedError creates tagged error classes", (t) => {
+    const error = new NotFoundError({ id: "42" });
+
+    t.true(error instanceof Error);
+    t.true(error instanceof NotFoundError);
+    t.is(error._tag, "NotFound");
+    t.is(error.id, "42");
+    t.is(error.name, "NotFound");
+    t.is(error.message, "NotFound");
+    t.is(new UnknownError()._tag, "Unknown");
+});
+
+test("TaggedError uses the message and cause fields", (t) => {
+    const cause = new Error("cause");
+    const error = new NotFoundError({ id: "42", message: "missing", cause });
+
+    t.is(error.message, "missing");
+    t.is(error.cause, cause);
+});
+
+test("catchTag removes the handled tag", (t) => {
+    const recovered: Result<string | null, TimeoutError | UnknownError> = load(
+        new NotFoundError({ id: "1" })
+    ).catchTag("NotFound", (error) =>
+        Result.Ok(error.id.length > 5 ? "" : null)
+    );
+
+    const untouched = load(new TimeoutError({ ms: 10 })).catchTag(
+        "NotFound",
+        () => Result.Ok(null)
+    );
+
+    t.is(recovered.unwrap(), null);
+    t.is(untouched.err().unwrap()._tag, "Timeout");
+});
+
+test("catchTags handles several tags", (t) => {
+    const handle = (error: NotFoundError | TimeoutError | UnknownError) => {
+        const result: Result<string | number, UnknownError | RangeError> = load(
+            error
+        ).catchTags({
+            NotFound: (error) => Result.Ok(error.id),
+            Timeout: (error) =>
+                error.ms > 100
+                    ? Result.Err(new RangeError())
+                    : Result.Ok(error.ms),
+        });
+
+        return result;
+    };
+
+    t.is(handle(new NotFoundError({ id: "1" })).unwrap(), "1");
+    t.is(handle(new TimeoutError({ ms: 5 })).unwrap(), 5);
+    t.true(
+        handle(new TimeoutError({ ms: 500 }))
+            .err()
+            .unwrap() instanceof RangeError
+    );
+    t.true(handle(new UnknownError()).err().unwrap() instanceof UnknownError);
+});
+
+test("AsyncResult catchTag accepts async handlers", async (t) => {
+    const result = await AsyncResult.Err(
+        new NotFoundError({ id: "1" }) as NotFoundError | TimeoutError
+    ).catchTag("NotFound", async (error) => Result.Ok(error.id));
+
+    t.is(result.unwrap(), "1");
+});
+
+test("from infers the union of expected errors", (t) => {
+    const result: Result<never, NotFoundError | TimeoutError> = Result.from(
+        [NotFoundError, TimeoutError],
+        () => {
+            throw new TimeoutError({ ms: 1 });
+        }
+    );
+
+    t.is(result.err().unwrap()._tag, "Timeout");
+    t.throws(() =>
+        Result.from([NotFoundError], () => {
+            throw new TimeoutError({ ms: 1 });
+        })
+    );
+});
+
+test("context wraps the error in a ContextError", (t) => {
+    const original = new NotFoundError({ id: "1" });
+    const result = load(original)
+        .context("loading user")
+        .withContext((error) => `handling ${error.message}`);
+
+    const outer = result.err().unwrap();
+
+    t.true(outer instanceof ContextError);
+    t.is(outer.message, "handling loading user");
+    t.true(outer.cause instanceof ContextError);
+    t.is(outer.cause.cause, original);
+    t.is(Result.Ok(1).context("unused").unwrap(), 1);
+});
+
+test("AsyncResult context wraps the error", async (t) => {
+    const result = await AsyncResult.Err(
+        new RangeError("out of range")
+    ).context("parsing");
+
+    t.is(result.err().unwrap().message, "parsing");
+    t.true(result.err().unwrap().cause instanceof RangeError);
+});
+
+test("report renders the cause chain", (t) => {
+    const error = Result.Err(new RangeError("out of range", { cause: "bad" }))
+        .context("parsing config")
+        .err()
+        .unwrap();
+
+    const report = Result.report(error, { format: "json" });
+
+    t.is(report.kind, "context");
+    t.is(report.message, "parsing config");
+    t.true(report.frames.length > 0);
+    t.like(report.cause, { kind: "error", name: "RangeError" });
+    t.like(report.cause?.cause, { kind: "value", message: "bad", frames: [] });
+
+    const lines = Result.report(error).split("\n");
+
+    t.is(lines[0], "Context: parsing config");
+    t.true(lines[1].startsWith("    at "));
+    t.true(lines.includes("  Caused by: RangeError: out of range"));
+    t.is(lines[lines.length - 1], "    Caused by: string: bad");
+});
+
+test("report includes the errors of an AggregateError", (t) => {
+    const report = Result.report(
+        new AggregateError([new TypeError("a"), new SyntaxError("b")], "both")
+    );
+
+    t.true(report.includes("  [0] TypeError: a"));
+    t.true(report.includes("  [1] SyntaxError: b"));
+});
+
+test("report marks circular causes", (t) => {
+    const self = new Error("self");
+    self.cause = self;
+
+    const first = new TypeError("first");
+    const second = new RangeError("second", { cause: first });
+    first.cause = second;
+
+    t.like(Result.report(self, { format: "json" }), {
+        kind: "error",
+        cause: { kind: "circular", name: "Error", message: "self", frames: [] },
+    });
+    t.deepEqual(
+        Result.report(first)
+            .split("\n")
+            .filter((line) => !line.trim().startsWith("at ")),
+        [
+            "TypeError: first",
+            "  Caused by: RangeError: second",
+            "    Caused by: [Circular] TypeError: first",
+        ]
+    );
+});
@@ -0,0 +1,212 @@
+/**
+ * An error with a literal `_tag` discriminant and typed fields, as created by `TaggedError`.
+ */
+export type TaggedErrorInstance<
+    Tag extends string,
+    A extends Record<string, unknown>,
+> = Error & { readonly _tag: Tag } & Readonly<A>;
+
+/**
+ * Fields that every tagged error constructor accepts in addition to its own.
+ */
+export interface TaggedErrorOptions {
+    message?: string;
+    cause?: unknown;
+}
+
+/**
+ * The class returned by `TaggedError`. Its type parameter describes the fields
+ * that must be passed to the constructor and that are exposed on instances.
+ */
+export interface TaggedErrorClass<Tag extends string> {
+    new <A extends Record<string, unknown> = {}>(
+        ...args: keyof A extends never
+            ? [fields?: A & TaggedErrorOptions]
+            : [fields: A & TaggedErrorOptions]
+    ): TaggedErrorInstance<Tag, A>;
+    readonly prototype: TaggedErrorInstance<Tag, {}>;
+}
+
+/**
+ * Creates a base class for errors with a literal `_tag` discriminant and typed fields.
+ * Tagged errors can be told apart within a union without `instanceof`, and can be
+ * handled selectively with `Result.catchTag` and `Result.catchTags`.
+ *
+ * The fields are assigned to the error instance. A `message` field is used as the
+ * error message, and a `cause` field as the error cause.
+ *
+ * Example:
+ * ```
+ * class NotFoundError extends TaggedError("NotFound")<{ id: string }> {}
+ * class TimeoutError extends TaggedError("Timeout")<{ ms: number }> {}
+ *
+ * const error = new NotFoundError({ id: "42" });
+ * error._tag; // "NotFound"
+ * error.id; // "42"
+ * ```
+ * @param tag - The literal tag of the errors.
+ * @returns A class to extend.
+ */
+export function TaggedError<Tag extends string>(
+    tag: Tag
+): TaggedErrorClass<Tag> {
+    class Tagged extends Error {
+        declare readonly _tag: Tag;
+
+        constructor(fields: Record<string, unknown> = {}) {
+            super(
+                typeof fields.message === "string" ? fields.message : tag,
+                "cause" in fields ? { cause: fields.cause } : undefined
+            );
+
+            Object.assign(this, fields);
+        }
+    }
+
+    // The tag lives on the prototype, so that errors revived from JSON with their
+    // class recover it, and so that it is not mistaken for one of the fields.
+    Object.defineProperty(Tagged.prototype, "_tag", { value: tag });
+    Tagged.prototype.name = tag;
+
+    return Tagged as unknown as TaggedErrorClass<Tag>;
+}
+
+/**
+ * An error that adds context to another error, as created by `result.context(...)`.
+ * The original error is kept as the standard `cause`, so that context layers can
+ * be told apart from the errors that actually caused a failure.
+ */
+export class ContextError<E extends Error = Error> extends Error {
+    declare readonly cause: E;
+
+    constructor(message: string, cause: E) {
+        super(message, { cause });
+
+        this.name = "ContextError";
+    }
+}
+
+/**
+ * A structured report of an error and its cause chain, as returned by
+ * `Result.report(error, { format: "json" })`.
+ */
+export interface ErrorReport {
+    /**
+     * `"context"` for context layers, `"error"` for errors and `"value"` for thrown non-error values.
+     * `"circular"` marks an error found again in its own cause chain, which is not reported twice.
+     */
+    kind: "context" | "error" | "value" | "circular";
+    name: string;
+    message: string;
+    /** The stack frames of the error, such as `"at main (index.js:1:1)"`. */
+    frames: string[];
+    cause?: ErrorReport;
+    /** The reports of the errors contained in an `AggregateError`. */
+    errors?: ErrorReport[];
+}
+
+/**
+ * Options accepted by `Result.report`.
+ */
+export interface ReportOptions {
+    /**
+     * `"text"` (the default) renders the report as indented text,
+     * `"json"` returns it as an `ErrorReport` object.
+     */
+    format?: "text" | "json";
+}
+
+/**
+ * Extracts the frames of a stack trace.
+ * @param stack - A stack trace, as found in `error.stack`.
+ * @returns The stack frames, such as `"at main (index.js:1:1)"`.
+ */
+export function stackFrames(stack: string | undefined): string[] {
+    return (stack ?? "")
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.startsWith("at "));
+}
+
+/**
+ * Builds a structured report of an error and its cause chain.
+ * @param error - The error to report. Values that are not errors are reported as is.
+ * @returns The report.
+ */
+export function buildReport(error: unknown): ErrorReport {
+    return buildReportWith(error, new Set());
+}
+
+function buildReportWith(error: unknown, seen: Set<Error>): ErrorReport {
+    if (!(error instanceof Error)) {
+        return {
+            kind: "value",
+            name: typeof error,
+            message: String(error),
+            frames: [],
+        };
+    }
+
+    if (seen.has(error)) {
+        return {
+            kind: "circular",
+            name: error.name,
+            message: error.message,
+            frames: [],
+        };
+    }
+
+    seen.add(error);
+
+    const report: ErrorReport = {
+        kind: error instanceof ContextError ? "context" : "error",
+        name: error.name,
+        message: error.message,
+        frames: stackFrames(error.stack),
+    };
+
+    if (error.cause !== undefined) {
+        report.cause = buildReportWith(error.cause, seen);
+    }
+
+    if (error instanceof AggregateError) {
+        report.errors = error.errors.map((inner) =>
+            buildReportWith(inner, seen)
+        );
+    }
+
+    seen.delete(error);
+
+    return report;
+}
+
+/**
+ * Renders a report as indented text. Every cause is indented one level deeper
+ * than the error it caused.
+ * @param report - The report to render.
+ * @param label - The label of the first line.
+ * @param depth - The indentation level.
+ * @returns The rendered lines.
+ */
+export function renderReport(
+    report: ErrorReport,
+    label = "",
+    depth = 0
+): string[] {
+    const indent = "  ".repeat(depth);
+    const title =
+        report.kind === "context"
+            ? `Context: ${report.message}`
+            : `${report.kind === "circular" ? "[Circular] " : ""}${report.name}: ${report.message}`;
+
+    return [
+        `${indent}${label}${title}`,
+        ...report.frames.map((frame) => `${indent}    ${frame}`),
+        ...(report.errors ?? []).flatMap((inner, i) =>
+            renderReport(inner, `[${i}] `, depth + 1)
+        ),
+        ...(report.cause === undefined
+            ? []
+            : renderReport(report.cause, "Caused by: ", depth + 1)),
+    ];
+}
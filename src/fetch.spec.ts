@@ -0,0 +1,193 @@
+import test from "ava";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { AbortedError, TimeoutError } from "./abort";
+import { D, DecodeError } from "./decoder";
+import { HttpStatusError, NetworkError, safeFetch } from "./fetch";
+
+let server: Server;
+let baseURL: string;
+
+test.before(async () => {
+    server = createServer((request, response) => {
+        switch (request.url) {
+            case "/user":
+                response.setHeader("content-type", "application/json");
+                response.end(JSON.stringify({ name: "Ada", age: 36 }));
+                break;
+            case "/echo":
+                request.pipe(response);
+                break;
+            case "/invalid":
+                response.end("{");
+                break;
+            case "/slow":
+                setTimeout(() => response.end("done"), 500);
+                break;
+            default:
+                response.statusCode = 404;
+                response.setHeader("x-reason", "unknown route");
+                response.end("not found");
+        }
+    });
+
+    await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve)
+    );
+
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+test.after.always(async () => {
+    server.closeAllConnections();
+
+    await new Promise((resolve) => server.close(resolve));
+});
+
+test("ok responses", async (t) => {
+    const response = (await safeFetch(`${baseURL}/user`)).unwrap();
+
+    t.is(response.status, 200);
+    t.is(response.headers.get("content-type"), "application/json");
+    t.deepEqual((await response.json()).unwrap(), { name: "Ada", age: 36 });
+});
+
+test("text", async (t) => {
+    const text = await safeFetch(`${baseURL}/echo`, {
+        method: "POST",
+        body: "hello",
+    }).andThen((response) => response.text());
+
+    t.is(text.unwrap(), "hello");
+});
+
+test("json with a decoder", async (t) => {
+    const User = D.object({ name: D.string, age: D.string });
+    const user = await safeFetch(`${baseURL}/user`).andThen((response) =>
+        response.json(User)
+    );
+    const error = user.err().unwrap();
+
+    t.true(error instanceof DecodeError);
+    t.deepEqual((error as DecodeError).failures, [
+        { path: "$.age", message: "Expected a string, but got a number" },
+    ]);
+});
+
+test("invalid json", async (t) => {
+    const json = await safeFetch(`${baseURL}/invalid`).andThen((response) =>
+        response.json()
+    );
+    const error = json.err().unwrap() as DecodeError;
+
+    t.true(error instanceof DecodeError);
+    t.is(error.failures[0].path, "$");
+    t.regex(error.failures[0].message, /^Invalid JSON: /);
+});
+
+test("error statuses", async (t) => {
+    const error = (await safeFetch(`${baseURL}/missing`)).err().unwrap();
+
+    t.true(error instanceof HttpStatusError);
+    t.is(error._tag, "HttpStatusError");
+
+    if (error._tag === "HttpStatusError") {
+        t.is(error.status, 404);
+        t.is(error.statusText, "Not Found");
+        t.is(error.headers.get("x-reason"), "unknown route");
+        t.is(error.body, "not found");
+        t.is(
+            error.message,
+            `Request to ${baseURL}/missing failed with status 404 Not Found`
+        );
+    }
+});
+
+test("network errors", async (t) => {
+    const closed = createServer();
+
+    await new Promise<void>((resolve) =>
+        closed.listen(0, "127.0.0.1", resolve)
+    );
+
+    const url = `http://127.0.0.1:${(closed.address() as AddressInfo).port}/`;
+
+    await new Promise((resolve) => closed.close(resolve));
+
+    const error = (await safeFetch(url)).err().unwrap();
+
+    t.true(error instanceof NetworkError);
+    t.is((error as NetworkError).url, url);
+    t.true(error.cause instanceof TypeError);
+});
+
+test("timeouts", async (t) => {
+    const error = (await safeFetch(`${baseURL}/slow`, { timeoutMs: 20 }))
+        .err()
+        .unwrap();
+
+    t.true(error instanceof TimeoutError);
+});
+
+test("abort signals", async (t) => {
+    const controller = new AbortController();
+    const response = safeFetch(`${baseURL}/slow`, {
+        signal: controller.signal,
+    });
+
+    controller.abort("cancelled");
+
+    const error = (await response).err().unwrap();
+
+    t.true(error instanceof AbortedError);
+    t.is(error.cause, "cancelled");
+});
+
+test("request signals are combined with the given signal", async (t) => {
+    const requestController = new AbortController();
+    const controller = new AbortController();
+    const fromRequest = safeFetch(
+        new Request(`${baseURL}/slow`, { signal: requestController.signal }),
+        { signal: controller.signal }
+    );
+
+    requestController.abort("request cancelled");
+
+    const error = (await fromRequest).err().unwrap();
+
+    t.true(error instanceof AbortedError);
+    t.is(error.cause, "request cancelled");
+
+    const fromInit = safeFetch(
+        new Request(`${baseURL}/slow`, {
+            signal: new AbortController().signal,
+        }),
+        { signal: controller.signal }
+    );
+
+    controller.abort("cancelled");
+
+    t.is((await fromInit).err().unwrap().cause, "cancelled");
+});
+
+test.serial("signals are combined without AbortSignal.any", async (t) => {
+    const any = Object.getOwnPropertyDescriptor(AbortSignal, "any");
+    const requestController = new AbortController();
+
+    delete (AbortSignal as { any?: unknown }).any;
+
+    try {
+        const response = safeFetch(
+            new Request(`${baseURL}/slow`, {
+                signal: requestController.signal,
+            }),
+            { signal: new AbortController().signal }
+        );
+
+        requestController.abort("request cancelled");
+
+        t.is((await response).err().unwrap().cause, "request cancelled");
+    } finally {
+        Object.defineProperty(AbortSignal, "any", any!);
+    }
+});
@@ -0,0 +1,242 @@
+import { AbortedError, TimeoutError } from "./abort";
+import { DecodeError, Decoder } from "./decoder";
+import { TaggedError } from "./errors";
+import { AsyncResult } from "./structs/async-result";
+import { Result } from "./structs/result";
+
+/**
+ * The error returned when a request cannot be sent or its response cannot be read,
+ * such as when the server is unreachable. The error thrown by `fetch` is kept as the `cause`.
+ */
+export class NetworkError extends TaggedError("NetworkError")<{
+    url: string;
+}> {
+    constructor(url: string, cause: unknown) {
+        super({ url, message: `Request to ${url} failed`, cause });
+    }
+}
+
+/**
+ * The error returned when a response has a status outside the 200-299 range.
+ * The body of the response is read as text.
+ */
+export class HttpStatusError extends TaggedError("HttpStatusError")<{
+    url: string;
+    status: number;
+    statusText: string;
+    headers: Headers;
+    body: string;
+}> {
+    constructor(response: Response, body: string) {
+        super({
+            url: response.url,
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+            body,
+            message: `Request to ${response.url} failed with status ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`,
+        });
+    }
+}
+
+/**
+ * The errors returned by `safeFetch`. An `AbortedError` is only returned when a `signal` is given.
+ */
+export type FetchError =
+    NetworkError | HttpStatusError | TimeoutError | AbortedError;
+
+/**
+ * Options accepted by `safeFetch`: the options of `fetch`, and a timeout.
+ */
+export interface SafeFetchInit extends RequestInit {
+    /**
+     * The number of milliseconds after which the request is aborted with a `TimeoutError`.
+     * The timeout covers the request until its headers are received, and the body of
+     * responses with an error status.
+     */
+    timeoutMs?: number;
+    /**
+     * A signal that aborts the request with an `AbortedError`. It is combined with the
+     * signal of a `Request` passed as the input, and covers the same span as the timeout:
+     * the body of a successful response, read with `text` or `json`, is not aborted by it.
+     */
+    signal?: AbortSignal | null;
+}
+
+/**
+ * A successful response returned by `safeFetch`, whose body can be read into Results.
+ */
+export class FetchResponse {
+    constructor(readonly raw: Response) {}
+
+    /** The URL of the response, after redirects. */
+    get url(): string {
+        return this.raw.url;
+    }
+
+    /** The status code of the response, between 200 and 299. */
+    get status(): number {
+        return this.raw.status;
+    }
+
+    /** The headers of the response. */
+    get headers(): Headers {
+        return this.raw.headers;
+    }
+
+    /**
+     * Reads the body as text.
+     * @returns An AsyncResult resolving to the text, or to a `NetworkError` if the body cannot be read.
+     */
+    text(): AsyncResult<string, NetworkError> {
+        return AsyncResult.from([TypeError], () => this.raw.text()).mapErr(
+            (error) => new NetworkError(this.url, error)
+        );
+    }
+
+    /**
+     * Reads the body as JSON, without checking its shape.
+     * @returns An AsyncResult resolving to the parsed body, or to a `NetworkError` if the body cannot be read, or a `DecodeError` if it is not valid JSON.
+     */
+    json<T = unknown>(): AsyncResult<T, NetworkError | DecodeError>;
+
+    /**
+     * Reads the body as JSON and decodes it.
+     * @param decoder - The decoder of the parsed body.
+     * @returns An AsyncResult resolving to the decoded body, or to a `NetworkError` if the body cannot be read, or a `DecodeError` if it is not valid JSON or cannot be decoded.
+     */
+    json<T>(decoder: Decoder<T>): AsyncResult<T, NetworkError | DecodeError>;
+
+    json(
+        decoder?: Decoder<unknown>
+    ): AsyncResult<unknown, NetworkError | DecodeError> {
+        return this.text().andThen((text) =>
+            Result.from([SyntaxError], () => JSON.parse(text) as unknown)
+                .mapErr(
+                    (error) =>
+                        new DecodeError([
+                            {
+                                path: "$",
+                                message: `Invalid JSON: ${error.message}`,
+                            },
+                        ])
+                )
+                .andThen((json) =>
+                    decoder === undefined
+                        ? Result.Ok(json)
+                        : decoder.decode(json)
+                )
+        );
+    }
+}
+
+function combineSignals(
+    signals: ReadonlyArray<AbortSignal>
+): AbortSignal | undefined {
+    if (signals.length <= 1) {
+        return signals[0];
+    }
+
+    // `AbortSignal.any` is only available from Node.js 20.3.
+    const Signal = AbortSignal as {
+        any?: (signals: AbortSignal[]) => AbortSignal;
+    };
+
+    if (Signal.any !== undefined) {
+        return Signal.any([...signals]);
+    }
+
+    const controller = new AbortController();
+
+    for (const signal of signals) {
+        if (signal.aborted) {
+            controller.abort(signal.reason);
+
+            break;
+        }
+
+        signal.addEventListener(
+            "abort",
+            () => controller.abort(signal.reason),
+            {
+                once: true,
+                signal: controller.signal,
+            }
+        );
+    }
+
+    return controller.signal;
+}
+
+function urlOf(input: string | URL | Request): string {
+    if (typeof input === "string") {
+        return input;
+    }
+
+    return input instanceof URL ? input.href : input.url;
+}
+
+/**
+ * Sends a request with `fetch`. Unlike `fetch`, responses with a status outside
+ * the 200-299 range are returned as an `HttpStatusError`. The timeout and the
+ * signals of the request stop applying once a successful response is returned.
+ *
+ * Example:
+ * ```
+ * const user = await safeFetch(`/users/${id}`, { timeoutMs: 5000 })
+ *   .andThen((response) => response.json(User));
+ *
+ * user.catchTag("HttpStatusError", (error) =>
+ *   error.status === 404 ? Result.Ok(guest) : Result.Err(error)
+ * );
+ * ```
+ * @param input - The URL or request to send.
+ * @param init - The options of `fetch`, and an optional timeout in milliseconds.
+ * @returns An AsyncResult resolving to the response, or to a `FetchError`.
+ * @throws Error (as a rejection) if `fetch` throws anything other than a `TypeError`.
+ */
+export function safeFetch(
+    input: string | URL | Request,
+    init: SafeFetchInit = {}
+): AsyncResult<FetchResponse, FetchError> {
+    const { timeoutMs, signal, ...options } = init;
+    const url = urlOf(input);
+    const signals = [
+        typeof input === "string" || input instanceof URL
+            ? undefined
+            : input.signal,
+        signal,
+    ].filter((s): s is AbortSignal => s !== undefined && s !== null);
+
+    const send = async (abortSignal: AbortSignal) => {
+        let response: Response;
+
+        try {
+            response = await fetch(input, {
+                ...options,
+                signal: abortSignal,
+            });
+        } catch (error) {
+            throw error instanceof TypeError
+                ? new NetworkError(url, error)
+                : error;
+        }
+
+        if (!response.ok) {
+            const body = await response.text().catch((error) => {
+                throw new NetworkError(url, error);
+            });
+
+            throw new HttpStatusError(response, body);
+        }
+
+        return new FetchResponse(response);
+    };
+
+    return AsyncResult.fromPromise(
+        Result.fromAsync([NetworkError, HttpStatusError], send, {
+            timeoutMs,
+            signal: combineSignals(signals),
+        })
+    );
+}
@@ -0,0 +1,138 @@
+import test from "ava";
+import {
+    clearHooks,
+    ErrEvent,
+    FromCaughtEvent,
+    registerHooks,
+    UnwrapPanicEvent,
+} from "./hooks";
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+class NotFoundError extends Error {}
+
+test.afterEach.always(() => clearHooks());
+
+test.serial("onErr fires when an Err is created", (t) => {
+    const events: ErrEvent[] = [];
+    const error = new Error("boom");
+
+    registerHooks({ onErr: (event) => events.push(event) });
+
+    Result.Ok(1);
+    Result.Err(error);
+
+    t.deepEqual(events, [{ error }]);
+});
+
+test.serial("onUnwrapPanic fires when unwrapping throws", (t) => {
+    const events: UnwrapPanicEvent[] = [];
+    const error = new Error("boom");
+
+    registerHooks({ onUnwrapPanic: (event) => events.push(event) });
+
+    Result.Ok(1).unwrap();
+    t.throws(() => Result.Err(error).unwrap());
+    t.throws(() => Option.None().unwrap());
+    t.throws(() => Either.Left("left").unwrapRight());
+    t.throws(() => Either.Right("right").expectLeft("expected a left"));
+
+    t.deepEqual(
+        events.map(({ variant, value }) => [variant, value]),
+        [
+            ["Err", error],
+            ["None", undefined],
+            ["Left", "left"],
+            ["Right", "right"],
+        ]
+    );
+    t.is(events[0].thrown, error);
+    t.is((events[3].thrown as Error).message, "expected a left");
+});
+
+test.serial("onFromCaught fires when Result.from catches", async (t) => {
+    const events: FromCaughtEvent[] = [];
+    const expected = new NotFoundError();
+    const unexpected = new TypeError();
+
+    registerHooks({ onFromCaught: (event) => events.push(event) });
+
+    Result.from([NotFoundError], () => {
+        throw expected;
+    });
+    t.throws(() =>
+        Result.from([NotFoundError], () => {
+            throw unexpected;
+        })
+    );
+    await Result.fromAsync([NotFoundError], async () => {
+        throw expected;
+    });
+
+    t.deepEqual(events, [
+        { error: expected, rethrown: false },
+        { error: unexpected, rethrown: true },
+        { error: expected, rethrown: false },
+    ]);
+});
+
+test.serial(
+    "hooks do not fire for results discarded after a timeout",
+    async (t) => {
+        const events: unknown[] = [];
+
+        registerHooks({
+            onErr: ({ error }) => events.push(error),
+            onFromCaught: ({ error }) => events.push(error),
+        });
+
+        const result = await Result.fromAsync(
+            [NotFoundError],
+            (signal) =>
+                new Promise((_, reject) =>
+                    signal.addEventListener("abort", () =>
+                        setTimeout(() => reject(signal.reason), 1)
+                    )
+                ),
+            { timeoutMs: 1 }
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        t.deepEqual(events, [result.err().unwrap()]);
+    }
+);
+
+test.serial("hooks capture the call site on demand", (t) => {
+    const events: (ErrEvent | UnwrapPanicEvent)[] = [];
+
+    registerHooks(
+        {
+            onErr: (event) => events.push(event),
+            onUnwrapPanic: (event) => events.push(event),
+        },
+        { captureCallSite: true }
+    );
+
+    Result.Err(new Error());
+    t.throws(() => Option.None().unwrap());
+    t.throws(() => Either.Left("left").expectRight("expected a right"));
+
+    t.is(events.length, 3);
+
+    for (const { callSite } of events) {
+        t.regex(callSite?.frames[0] ?? "", /hooks\.spec\.js:\d+:\d+\)?$/);
+    }
+});
+
+test.serial("unregistering removes the hooks", (t) => {
+    let count = 0;
+    const unregister = registerHooks({ onErr: () => count++ });
+
+    Result.Err(new Error());
+    unregister();
+    Result.Err(new Error());
+
+    t.is(count, 1);
+});
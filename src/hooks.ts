@@ -0,0 +1,216 @@
+import { stackFrames } from "./errors";
+
+/**
+ * The place where a hook event was fired.
+ */
+export interface CallSite {
+    /**
+     * The stack frames at the point where the event was fired, innermost first,
+     * such as `"at loadUser (users.js:1:1)"`. The frames start below the teav function
+     * that fired the event, such as `Result.Err` or `Option.unwrap`, so the first frame
+     * is its caller. Events fired after an `await`, such as those of `Result.fromAsync`,
+     * keep every frame.
+     */
+    frames: string[];
+}
+
+/**
+ * The event passed to `onErr` when `Result.Err` creates an Err.
+ */
+export interface ErrEvent {
+    error: Error;
+    callSite?: CallSite;
+}
+
+/**
+ * The event passed to `onUnwrapPanic` when unwrapping throws.
+ */
+export interface UnwrapPanicEvent {
+    /**
+     * The variant that was unwrapped: `"Err"` or `"None"`, or the wrong side of an `Either`.
+     */
+    variant: "Err" | "None" | "Left" | "Right";
+    /**
+     * The contained value: the error of an Err, the value of a Left or Right, or `undefined` for None.
+     */
+    value: unknown;
+    /**
+     * The value that is about to be thrown.
+     */
+    thrown: unknown;
+    callSite?: CallSite;
+}
+
+/**
+ * The event passed to `onFromCaught` when `Result.from` or `Result.fromAsync` catches an error.
+ */
+export interface FromCaughtEvent {
+    error: unknown;
+    /**
+     * `true` if the error was not expected and is rethrown, `false` if it is returned as an Err.
+     */
+    rethrown: boolean;
+    callSite?: CallSite;
+}
+
+/**
+ * Functions called when failures occur, as registered with `registerHooks`.
+ */
+export interface Hooks {
+    /**
+     * Called whenever `Result.Err` creates an Err.
+     */
+    onErr?: (event: ErrEvent) => void;
+    /**
+     * Called whenever `unwrap` or `expect` is about to throw on an Err or None,
+     * or `unwrapLeft`, `unwrapRight`, `expectLeft` or `expectRight` on the wrong side of an `Either`.
+     */
+    onUnwrapPanic?: (event: UnwrapPanicEvent) => void;
+    /**
+     * Called whenever `Result.from` or `Result.fromAsync` catches an error,
+     * whether it is returned as an Err or rethrown. Errors thrown after a
+     * timeout or abort are discarded and not reported.
+     */
+    onFromCaught?: (event: FromCaughtEvent) => void;
+}
+
+/**
+ * Options accepted by `registerHooks`.
+ */
+export interface HookOptions {
+    /**
+     * Whether to capture the call site of every event. Capturing a call site
+     * records a stack trace, so it is off by default.
+     */
+    captureCallSite?: boolean;
+}
+
+interface Registration {
+    hooks: Hooks;
+    captureCallSite: boolean;
+}
+
+let registrations: Registration[] = [];
+
+/**
+ * Registers hooks that are called when failures occur, for example to count
+ * and sample them. Hooks are called synchronously, in registration order, and
+ * must not throw. When no hooks are registered, firing an event costs a single
+ * length check.
+ *
+ * Example:
+ * ```
+ * const unregister = registerHooks({
+ *   onErr: ({ error }) => metrics.increment("errors", { name: error.name }),
+ * });
+ * ```
+ * @param hooks - The hooks to register.
+ * @param options - Options for the registration.
+ * @returns A function that unregisters the hooks.
+ */
+export function registerHooks(
+    hooks: Hooks,
+    options: HookOptions = {}
+): () => void {
+    const registration: Registration = {
+        hooks,
+        captureCallSite: options.captureCallSite ?? false,
+    };
+
+    registrations = [...registrations, registration];
+
+    return () => {
+        registrations = registrations.filter((other) => other !== registration);
+    };
+}
+
+/**
+ * Unregisters every hook.
+ */
+export function clearHooks(): void {
+    registrations = [];
+}
+
+function callSiteOf(entry: Function): CallSite {
+    const holder: { stack?: string } = {};
+
+    Error.captureStackTrace?.(holder, entry);
+
+    const frames = stackFrames(holder.stack);
+
+    if (frames.length > 0) {
+        return { frames };
+    }
+
+    // The entry is no longer on the stack once it has awaited.
+    Error.captureStackTrace?.(holder, fire);
+
+    return { frames: stackFrames(holder.stack ?? new Error().stack) };
+}
+
+function fire<K extends keyof Hooks>(
+    name: K,
+    event: Parameters<NonNullable<Hooks[K]>>[0],
+    entry: Function
+): void {
+    let callSite: CallSite | undefined;
+
+    for (const { hooks, captureCallSite } of registrations) {
+        const hook = hooks[name] as ((event: unknown) => void) | undefined;
+
+        if (hook === undefined) {
+            continue;
+        }
+
+        if (captureCallSite) {
+            callSite ??= callSiteOf(entry);
+        }
+
+        hook(captureCallSite ? { ...event, callSite } : event);
+    }
+}
+
+/**
+ * Fires the `onErr` hooks.
+ * @param error - The error of the Err.
+ * @param entry - The teav function that fired the event. It and the frames above it are left out of the call site.
+ */
+export function fireErr(error: Error, entry: Function): void {
+    if (registrations.length > 0) {
+        fire("onErr", { error }, entry);
+    }
+}
+
+/**
+ * Fires the `onUnwrapPanic` hooks.
+ * @param variant - The variant that was unwrapped.
+ * @param value - The contained value.
+ * @param thrown - The value that is about to be thrown.
+ * @param entry - The teav function that fired the event. It and the frames above it are left out of the call site.
+ */
+export function fireUnwrapPanic(
+    variant: UnwrapPanicEvent["variant"],
+    value: unknown,
+    thrown: unknown,
+    entry: Function
+): void {
+    if (registrations.length > 0) {
+        fire("onUnwrapPanic", { variant, value, thrown }, entry);
+    }
+}
+
+/**
+ * Fires the `onFromCaught` hooks.
+ * @param error - The caught error.
+ * @param rethrown - Whether the error is rethrown.
+ * @param entry - The teav function that fired the event. It and the frames above it are left out of the call site.
+ */
+export function fireFromCaught(
+    error: unknown,
+    rethrown: boolean,
+    entry: Function
+): void {
+    if (registrations.length > 0) {
+        fire("onFromCaught", { error, rethrown }, entry);
+    }
+}
@@ -1,3 +1,58 @@
+export { AbortedError, TimeoutError } from "./abort";
+export type { AbortOptions } from "./abort";
+export { isDebugMode, originOf, setDebugMode, VariantOrigin } from "./debug";
+export { D, DecodeError, Decoder } from "./decoder";
+export type { DecodeFailure, Infer } from "./decoder";
+export { ContextError, TaggedError } from "./errors";
+export type {
+    ErrorReport,
+    ReportOptions,
+    TaggedErrorClass,
+    TaggedErrorInstance,
+    TaggedErrorOptions,
+} from "./errors";
+export {
+    FetchResponse,
+    HttpStatusError,
+    NetworkError,
+    safeFetch,
+} from "./fetch";
+export type { FetchError, SafeFetchInit } from "./fetch";
+export { clearHooks, registerHooks } from "./hooks";
+export type {
+    CallSite,
+    ErrEvent,
+    FromCaughtEvent,
+    HookOptions,
+    Hooks,
+    UnwrapPanicEvent,
+} from "./hooks";
+export { Iter } from "./iter";
+export type { VariantIterator } from "./iter";
+export { MalformedJSONError } from "./json";
+export type {
+    EitherJSON,
+    ErrorJSON,
+    FromJSONOptions,
+    OptionJSON,
+    ResultJSON,
+} from "./json";
+export { resultify } from "./resultify";
+export { RetryError } from "./retry";
+export type { RetryPolicy } from "./retry";
+export { eventHooks, spanHooks } from "./telemetry";
+export type {
+    Attributes,
+    AttributeValue,
+    EventLoggerLike,
+    SpanLike,
+} from "./telemetry";
+export { AsyncResult } from "./structs/async-result";
+export { match, Matcher, P } from "./match";
+export type { Pattern } from "./match";
 export { Either } from "./structs/either";
 export { Option } from "./structs/option";
 export { Result } from "./structs/result";
+export type { ErrorClass, ErrorTag } from "./structs/result";
+export { ValidationError, Validated } from "./structs/validated";
+export type { NonEmptyArray } from "./structs/validated";
@@ -0,0 +1,64 @@
+import test from "ava";
+import { inspect } from "node:util";
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+class NotFoundError extends Error {
+    name = "NotFoundError";
+}
+
+test("toString formats variants", (t) => {
+    t.is(String(Result.Ok(3)), "Ok(3)");
+    t.is(
+        String(Result.Err(new NotFoundError("user 42"))),
+        "Err(NotFoundError: user 42)"
+    );
+    t.is(String(Option.Some({ id: 1 })), "Some({ … })");
+    t.is(String(Option.Some([])), "Some([])");
+    t.is(String(Option.None()), "None");
+    t.is(String(Either.Left("x")), 'Left("x")');
+    t.is(String(Either.Right(BigInt(10))), "Right(10n)");
+    t.is(String(Option.Some(Result.Ok(null))), "Some(Ok(null))");
+});
+
+test("Symbol.toStringTag names the variant", (t) => {
+    const tag = (value: unknown) => Object.prototype.toString.call(value);
+
+    t.is(tag(Result.Ok(1)), "[object Ok]");
+    t.is(tag(Result.Err(new Error())), "[object Err]");
+    t.is(tag(Option.Some(1)), "[object Some]");
+    t.is(tag(Option.None()), "[object None]");
+    t.is(tag(Either.Left(1)), "[object Left]");
+    t.is(tag(Either.Right(1)), "[object Right]");
+});
+
+test("util.inspect shows the contained value", (t) => {
+    t.is(inspect(Option.Some({ id: 1 })), "Some({ id: 1 })");
+    t.is(inspect(Option.None()), "None");
+    t.is(inspect(Either.Left("x")), "Left('x')");
+    t.is(inspect([Result.Ok(1)]), "[ Ok(1) ]");
+    t.regex(
+        inspect(Result.Err(new NotFoundError("user 42"))),
+        /^Err\(NotFoundError: user 42\n\s+at /
+    );
+});
+
+test("util.inspect counts variants as a level of depth", (t) => {
+    const nested = Option.Some({ user: { address: { city: "Paris" } } });
+
+    t.is(inspect(nested, { depth: 1 }), "Some({ user: [Object] })");
+    t.is(inspect(nested, { depth: 0 }), "Some([Object])");
+    t.is(
+        inspect(Option.Some(Option.Some(Option.Some(1))), { depth: 1 }),
+        "Some(Some([Some]))"
+    );
+    t.is(inspect({ a: Option.Some(1) }, { depth: 0 }), "{ a: [Some] }");
+});
+
+test("util.inspect respects colors", (t) => {
+    t.is(
+        inspect(Result.Ok(3), { colors: true }),
+        "\x1b[36mOk\x1b[39m(\x1b[33m3\x1b[39m)"
+    );
+});
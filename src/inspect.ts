@@ -0,0 +1,112 @@
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+/**
+ * The options passed by `util.inspect` to custom inspection functions.
+ */
+export interface InspectOptions {
+    depth?: number | null;
+    stylize(text: string, styleType: string): string;
+}
+
+/**
+ * The `util.inspect` function, as passed to custom inspection functions.
+ */
+export type InspectFunction = (
+    value: unknown,
+    options: InspectOptions
+) => string;
+
+/**
+ * Formats a value contained in a variant for `toString`. Strings are quoted, errors
+ * are shortened to their name and message, and objects and arrays are elided.
+ * @param value - The value to format.
+ * @returns The formatted value.
+ */
+export function formatValue(value: unknown): string {
+    if (typeof value === "string") {
+        return JSON.stringify(value);
+    }
+
+    if (typeof value === "bigint") {
+        return `${value}n`;
+    }
+
+    if (typeof value === "function") {
+        return `[Function${value.name ? ` ${value.name}` : ""}]`;
+    }
+
+    if (value instanceof Error) {
+        return `${value.name}: ${value.message}`;
+    }
+
+    if (
+        Result.isResult(value) ||
+        Option.isOption(value) ||
+        Either.isEither(value)
+    ) {
+        return value.toString();
+    }
+
+    if (Array.isArray(value)) {
+        return value.length === 0 ? "[]" : "[ … ]";
+    }
+
+    if (typeof value === "object" && value !== null) {
+        return Object.keys(value).length === 0 ? "{}" : "{ … }";
+    }
+
+    return String(value);
+}
+
+/**
+ * Formats a variant for `toString`, such as `Ok(3)` or `None`.
+ * @param name - The name of the variant.
+ * @param value - The contained value, if the variant has one.
+ * @returns The formatted variant.
+ */
+export function formatVariant(name: string, ...value: [] | [unknown]): string {
+    return value.length === 0 ? name : `${name}(${formatValue(value[0])})`;
+}
+
+/**
+ * Formats a variant for `util.inspect`, inspecting the contained value with the
+ * remaining depth and the colors of the given options.
+ * @param name - The name of the variant.
+ * @param value - The contained value, if the variant has one.
+ * @param depth - The depth of the variant, as passed by `util.inspect`.
+ * @param options - The options passed by `util.inspect`.
+ * @param inspect - The `util.inspect` function, if passed.
+ * @returns The inspected variant.
+ */
+export function inspectVariant(
+    name: string,
+    value: [] | [unknown],
+    depth: number,
+    options: InspectOptions,
+    inspect?: InspectFunction
+): string {
+    const tag = options.stylize(name, "special");
+
+    if (value.length === 0) {
+        return tag;
+    }
+
+    if (depth < 0) {
+        return options.stylize(`[${name}]`, "special");
+    }
+
+    const inner =
+        inspect === undefined
+            ? formatValue(value[0])
+            : inspect(value[0], {
+                  ...options,
+                  depth:
+                      options.depth === null || options.depth === undefined
+                          ? options.depth
+                          : options.depth - 1,
+              });
+
+    return `${tag}(${inner})`;
+}
@@ -0,0 +1,177 @@
+import test from "ava";
+import { testProp, fc } from "@fast-check/ava";
+import { Iter } from "./iter";
+import { AsyncResult } from "./structs/async-result";
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+class ParseError extends Error {}
+
+const parse = (input: string): Result<number, ParseError> =>
+    /^\d+$/.test(input)
+        ? Result.Ok(Number(input))
+        : Result.Err(new ParseError(input));
+
+testProp("variants iterate zero or one times", [fc.anything()], (t, v) => {
+    const some: unknown[] = [...Option.Some(v)];
+
+    t.deepEqual(some, [v]);
+    t.deepEqual([...Option.None()], []);
+    t.deepEqual(Array.from(Result.Ok(v)), [v]);
+    t.deepEqual(Array.from(Result.Err(new Error())), []);
+    t.deepEqual([...Either.Right(v)], [v]);
+    t.deepEqual([...Either.Left(v)], []);
+
+    const seen: unknown[] = [];
+
+    for (const value of Option.Some(v)) {
+        seen.push(value);
+    }
+
+    for (const value of Option.None()) {
+        seen.push(value);
+    }
+
+    t.deepEqual(seen, [v]);
+});
+
+test("for await iterates over a settled AsyncResult", async (t) => {
+    const seen: unknown[] = [];
+
+    for await (const value of AsyncResult.Ok(1)) {
+        seen.push(value);
+    }
+
+    for await (const value of AsyncResult.Err(new Error())) {
+        seen.push(value);
+    }
+
+    t.deepEqual(seen, [1]);
+});
+
+test("iteration inside gen does not short-circuit", (t) => {
+    const result = Result.gen(function* () {
+        const values: number[] = [];
+
+        for (const value of Option.None()) {
+            values.push(value);
+        }
+
+        values.push(...Option.Some(1), ...Result.Ok(2));
+
+        return values.concat(yield* Result.Ok(3));
+    });
+
+    t.deepEqual(result.unwrap(), [1, 2, 3]);
+});
+
+testProp("Iter is lazy", [fc.array(fc.integer())], (t, values) => {
+    let consumed = 0;
+
+    function* source() {
+        for (const value of values) {
+            consumed++;
+            yield value;
+        }
+    }
+
+    const iter = Iter.from(source())
+        .map((value) => value * 2)
+        .filter((value) => value % 3 !== 0);
+
+    t.is(consumed, 0);
+
+    const first = iter.nth(0);
+    const expected = values
+        .map((value) => value * 2)
+        .find((value) => value % 3 !== 0);
+
+    t.deepEqual(first.unwrapOrUndefined(), expected);
+    t.is(
+        consumed,
+        expected === undefined
+            ? values.length
+            : values.findIndex((value) => (value * 2) % 3 !== 0) + 1
+    );
+});
+
+testProp(
+    "filterMap keeps Some values",
+    [fc.array(fc.string())],
+    (t, inputs) => {
+        t.deepEqual(
+            Iter.from(inputs)
+                .filterMap((input) => parse(input).ok())
+                .toArray(),
+            inputs.filter((input) => /^\d+$/.test(input)).map(Number)
+        );
+    }
+);
+
+testProp(
+    "tryMap and collect stop on the first Err",
+    [fc.array(fc.string())],
+    (t, inputs) => {
+        const firstInvalid = inputs.find((input) => !/^\d+$/.test(input));
+        const mapped = Iter.from(inputs).tryMap(parse);
+
+        if (firstInvalid === undefined) {
+            t.deepEqual(mapped.unwrap(), inputs.map(Number));
+        } else {
+            t.is(mapped.err().unwrap().message, firstInvalid);
+        }
+
+        t.deepEqual(Iter.from(inputs).map(parse).collect(), mapped);
+    }
+);
+
+test("tryFold stops on the first Err", (t) => {
+    let calls = 0;
+    const sum = (inputs: string[]) =>
+        Iter.from(inputs).tryFold(0, (total, input) => {
+            calls++;
+
+            return parse(input).map((value) => total + value);
+        });
+
+    t.is(sum(["1", "2", "3"]).unwrap(), 6);
+    t.is(calls, 3);
+    t.true(sum(["1", "x", "3"]).isErr());
+    t.is(calls, 5);
+});
+
+test("findMap, nth and take", (t) => {
+    const inputs = ["a", "12", "b", "34"];
+
+    t.is(
+        Iter.from(inputs)
+            .findMap((input) => parse(input).ok())
+            .unwrap(),
+        12
+    );
+    t.true(
+        Iter.from(inputs)
+            .findMap(() => Option.None())
+            .isNone()
+    );
+    t.is(Iter.from(inputs).nth(3).unwrap(), "34");
+    t.true(Iter.from(inputs).nth(4).isNone());
+    t.true(Iter.from(inputs).nth(-1).isNone());
+    t.deepEqual(Iter.from(inputs).take(2).toArray(), ["a", "12"]);
+    t.deepEqual(Iter.from(inputs).take(0).toArray(), []);
+    t.deepEqual(
+        Iter.from([Option.Some(1), Option.None(), Option.Some(3)])
+            .filterMap((option) => option)
+            .toArray(),
+        [1, 3]
+    );
+});
+
+test("success variants iterate over their own type", (t) => {
+    const some: number[] = [...Option.Some(1)];
+    const ok: number[] = [...Result.Ok(2)];
+    const right: number[] = [...Either.Right(3)];
+
+    t.deepEqual([...some, ...ok, ...right], [1, 2, 3]);
+});
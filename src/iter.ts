@@ -0,0 +1,251 @@
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+/**
+ * The iterator of a `Result`, `Option` or `Either`.
+ */
+export interface VariantIterator<T, TReturn> extends Iterator<
+    T,
+    TReturn,
+    unknown
+> {
+    [Symbol.iterator](): VariantIterator<T, TReturn>;
+}
+
+/**
+ * Creates the iterator of a variant. Iterated with `for…of`, spread or `Array.from`,
+ * a success variant produces its value once and a failure variant produces nothing.
+ *
+ * `yield*` is told apart from those by the argument it always passes to `next`:
+ * inside `gen`, a success variant returns its value right away, and a failure
+ * variant yields itself so that the driver can short-circuit.
+ * @param variant - The `Result`, `Option` or `Either` being iterated.
+ * @param success - Whether the variant holds a success value.
+ * @param value - The success value.
+ * @returns An iterator over the variant.
+ */
+export function variantIterator<T>(
+    variant: object,
+    success: boolean,
+    value?: T
+): VariantIterator<any, T> {
+    let done = false;
+
+    return {
+        next(...args: unknown[]): IteratorResult<any, T> {
+            const delegated = args.length > 0;
+
+            if (done) {
+                return { done: true, value: undefined as T };
+            }
+
+            done = true;
+
+            if (success) {
+                return delegated
+                    ? { done: true, value: value as T }
+                    : { done: false, value };
+            }
+
+            return delegated
+                ? { done: false, value: variant }
+                : { done: true, value: undefined as T };
+        },
+        [Symbol.iterator]() {
+            return this;
+        },
+    };
+}
+
+/**
+ * A lazy iterator over any `Iterable`, with combinators that work with `Option` and `Result`.
+ * Adapters such as `map` and `filterMap` do nothing until the iterator is consumed, and
+ * consumers such as `tryFold` and `findMap` stop as soon as their outcome is known.
+ *
+ * Example:
+ * ```
+ * // Result<number[], ParseError>
+ * const ports = Iter.from(lines)
+ *   .filterMap((line) => Option.ofNullable(line.match(/^port=(.*)$/)?.[1]))
+ *   .tryMap(parsePort);
+ * ```
+ */
+export class Iter<T> implements Iterable<T> {
+    protected constructor(private readonly source: () => Iterator<T>) {}
+
+    /**
+     * Creates a lazy iterator over an iterable.
+     * @param iterable - Any iterable, including arrays, sets, maps, generators and `Option`s.
+     * @returns A lazy iterator over the iterable's values.
+     */
+    static from<T>(iterable: Iterable<T>): Iter<T> {
+        return new Iter(() => iterable[Symbol.iterator]());
+    }
+
+    /**
+     * Transforms every value using a provided function.
+     * @param fn - A function to apply to each value.
+     * @returns A lazy iterator over the transformed values.
+     */
+    map<U>(fn: (value: T) => U): Iter<U> {
+        const source = this;
+
+        return new Iter(function* () {
+            for (const value of source) {
+                yield fn(value);
+            }
+        });
+    }
+
+    /**
+     * Keeps the values that satisfy a predicate.
+     * @param predicate - A predicate to apply to each value.
+     * @returns A lazy iterator over the values that satisfy the predicate.
+     */
+    filter<U extends T>(predicate: (value: T) => value is U): Iter<U>;
+    filter(predicate: (value: T) => boolean): Iter<T>;
+    filter(predicate: (value: T) => boolean): Iter<T> {
+        const source = this;
+
+        return new Iter(function* () {
+            for (const value of source) {
+                if (predicate(value)) {
+                    yield value;
+                }
+            }
+        });
+    }
+
+    /**
+     * Transforms every value using a function returning an Option, keeping the Some values.
+     * @param fn - A function to apply to each value.
+     * @returns A lazy iterator over the values of the Some Options.
+     */
+    filterMap<U>(fn: (value: T) => Option<U>): Iter<U> {
+        const source = this;
+
+        return new Iter(function* () {
+            for (const value of source) {
+                const option = fn(value);
+
+                if (option.isSome()) {
+                    yield option.unwrap();
+                }
+            }
+        });
+    }
+
+    /**
+     * Keeps at most a number of values.
+     * @param count - The maximum number of values.
+     * @returns A lazy iterator over the first `count` values.
+     */
+    take(count: number): Iter<T> {
+        const source = this;
+
+        return new Iter(function* () {
+            if (count <= 0) {
+                return;
+            }
+
+            let taken = 0;
+
+            for (const value of source) {
+                yield value;
+
+                if (++taken >= count) {
+                    return;
+                }
+            }
+        });
+    }
+
+    /**
+     * Transforms every value using a function returning a Result, stopping on the first Err.
+     * @param fn - A function to apply to each value.
+     * @returns Ok with every transformed value, or the first Err.
+     */
+    tryMap<U, E extends Error>(fn: (value: T) => Result<U, E>): Result<U[], E> {
+        return this.map(fn).collect();
+    }
+
+    /**
+     * Folds every value into an accumulator using a function returning a Result,
+     * stopping on the first Err.
+     * @param initial - The initial value of the accumulator.
+     * @param fn - A function combining the accumulator with each value.
+     * @returns Ok with the final accumulator, or the first Err.
+     */
+    tryFold<A, E extends Error>(
+        initial: A,
+        fn: (accumulator: A, value: T) => Result<A, E>
+    ): Result<A, E> {
+        let accumulator = initial;
+
+        for (const value of this) {
+            const result = fn(accumulator, value);
+
+            if (result.isErr()) {
+                return result;
+            }
+
+            accumulator = result.unwrap();
+        }
+
+        return Result.Ok(accumulator);
+    }
+
+    /**
+     * Applies a function returning an Option to each value, returning the first Some.
+     * @param fn - A function to apply to each value.
+     * @returns The first Some returned by the function, or None.
+     */
+    findMap<U>(fn: (value: T) => Option<U>): Option<U> {
+        for (const value of this) {
+            const option = fn(value);
+
+            if (option.isSome()) {
+                return option;
+            }
+        }
+
+        return Option.None();
+    }
+
+    /**
+     * Returns the value at an index.
+     * @param index - The zero-based index of the value.
+     * @returns Some with the value, or None if there are not enough values.
+     */
+    nth(index: number): Option<T> {
+        let current = 0;
+
+        for (const value of this) {
+            if (current++ === index) {
+                return Option.Some(value);
+            }
+        }
+
+        return Option.None();
+    }
+
+    /**
+     * Collects an iterator of Results into a Result of an array, stopping on the first Err.
+     * @returns Ok with every Ok value, or the first Err.
+     */
+    collect<U, E extends Error>(this: Iter<Result<U, E>>): Result<U[], E> {
+        return Result.collect(this);
+    }
+
+    /**
+     * Collects every value into an array.
+     * @returns An array of the values.
+     */
+    toArray(): T[] {
+        return Array.from(this);
+    }
+
+    [Symbol.iterator](): Iterator<T> {
+        return this.source();
+    }
+}
@@ -0,0 +1,180 @@
+import test from "ava";
+import { testProp, fc } from "@fast-check/ava";
+import { TaggedError } from "./errors";
+import { ErrorJSON, MalformedJSONError } from "./json";
+import { AsyncResult } from "./structs/async-result";
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+class NotFoundError extends Error {
+    name = "NotFoundError";
+}
+
+class UserNotFoundError extends TaggedError("UserNotFound")<{
+    id: string;
+}> {}
+
+const roundTrip = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+testProp("Option round trip", [fc.jsonValue()], (t, v) => {
+    const some = Option.fromJSON(roundTrip(Option.Some(v))).unwrap();
+    const none = Option.fromJSON(roundTrip(Option.None())).unwrap();
+
+    t.deepEqual(some.unwrap(), roundTrip(v));
+    t.is(none.isNone(), true);
+});
+
+testProp("Either round trip", [fc.jsonValue()], (t, v) => {
+    const left = Either.fromJSON(roundTrip(Either.Left(v))).unwrap();
+    const right = Either.fromJSON(roundTrip(Either.Right(v))).unwrap();
+
+    t.deepEqual(left.unwrapLeft(), roundTrip(v));
+    t.deepEqual(right.unwrapRight(), roundTrip(v));
+});
+
+testProp("Result round trip", [fc.jsonValue()], (t, v) => {
+    const ok = Result.fromJSON(roundTrip(Result.Ok(v))).unwrap();
+
+    t.deepEqual(ok.unwrap(), roundTrip(v));
+});
+
+test("undefined values survive a round trip", async (t) => {
+    const ok = Result.fromJSON(roundTrip(Result.Ok(undefined))).unwrap();
+    const some = Option.fromJSON(roundTrip(Option.Some(undefined))).unwrap();
+    const left = Either.fromJSON(roundTrip(Either.Left(undefined))).unwrap();
+    const right = Either.fromJSON(roundTrip(Either.Right(undefined))).unwrap();
+    const written: Result<void, Error> = await AsyncResult.Ok(undefined);
+
+    t.deepEqual(ok, Result.Ok(undefined));
+    t.deepEqual(some, Option.Some(undefined));
+    t.deepEqual(left, Either.Left(undefined));
+    t.deepEqual(right, Either.Right(undefined));
+    t.deepEqual(
+        Result.fromJSON(roundTrip(Result.Ok(written))).unwrap(),
+        Result.Ok(Result.Ok(undefined))
+    );
+});
+
+test("toJSON uses a tagged shape", (t) => {
+    t.deepEqual(Result.Ok(1).toJSON(), { $teav: "Ok", value: 1 });
+    t.deepEqual(Option.None().toJSON(), { $teav: "None" });
+    t.deepEqual(Either.Right("x").toJSON(), { $teav: "Right", value: "x" });
+    t.deepEqual(roundTrip(Result.Ok(Option.Some(1))), {
+        $teav: "Ok",
+        value: { $teav: "Some", value: 1 },
+    });
+});
+
+test("errors keep their name, message, stack and cause chain", (t) => {
+    const cause = new TypeError("bad input");
+    const error = new NotFoundError("missing user", { cause });
+
+    const revived = Result.fromJSON(roundTrip(Result.Err(error)), {
+        errors: [NotFoundError],
+    })
+        .unwrap()
+        .err()
+        .unwrap();
+
+    t.true(revived instanceof NotFoundError);
+    t.is(revived.name, "NotFoundError");
+    t.is(revived.message, "missing user");
+    t.is(revived.stack, error.stack);
+    t.true(revived.cause instanceof TypeError);
+    t.is((revived.cause as Error).message, "bad input");
+});
+
+test("unknown errors are rebuilt as plain errors", (t) => {
+    const revived = Result.fromJSON(
+        roundTrip(Result.Err(new NotFoundError("missing")))
+    )
+        .unwrap()
+        .err()
+        .unwrap();
+
+    t.is(Object.getPrototypeOf(revived), Error.prototype);
+    t.is(revived.name, "NotFoundError");
+});
+
+test("tagged errors keep their tag and fields", (t) => {
+    const json = roundTrip(Result.Err(new UserNotFoundError({ id: "42" })));
+    const recover = (result: Result<unknown, UserNotFoundError>) =>
+        result.catchTag("UserNotFound", (error) => Result.Ok(error.id));
+
+    const withClass = Result.fromJSON<unknown, UserNotFoundError>(json, {
+        errors: [UserNotFoundError],
+    }).unwrap();
+    const withoutClass = Result.fromJSON<unknown, UserNotFoundError>(
+        json
+    ).unwrap();
+
+    t.is(json.value.tag, "UserNotFound");
+    t.deepEqual(json.value.fields, { id: "42" });
+    t.true(withClass.err().unwrap() instanceof UserNotFoundError);
+    t.is(recover(withClass).unwrap(), "42");
+    t.is(recover(withoutClass).unwrap(), "42");
+    t.deepEqual(Object.keys(new UserNotFoundError({ id: "42" })), ["id"]);
+});
+
+test("circular causes are serialized once", (t) => {
+    const first = new Error("first");
+    const second = new Error("second", { cause: first });
+    first.cause = second;
+
+    const shared = new TypeError("shared");
+    const aggregate = new AggregateError([shared, shared], "many");
+
+    const json = Result.Err(first).toJSON();
+    const revived = Result.fromJSON(roundTrip(Result.Err(first)))
+        .unwrap()
+        .err()
+        .unwrap();
+
+    t.is(((json.value as ErrorJSON).cause as ErrorJSON).cause, "[Circular]");
+    t.is((revived.cause as Error).message, "second");
+    t.is((revived.cause as Error).cause, "[Circular]");
+    t.deepEqual(
+        (Result.Err(aggregate).toJSON().value as ErrorJSON).errors,
+        [shared, shared].map((error) => ({
+            $teav: "Error",
+            name: "TypeError",
+            message: "shared",
+            stack: error.stack,
+        }))
+    );
+});
+
+test("nested values are rebuilt", (t) => {
+    const revived = Result.fromJSON<Option<Either<string, number>>>(
+        roundTrip(Result.Ok(Option.Some(Either.Right(1))))
+    ).unwrap();
+
+    t.is(revived.unwrap().unwrap().unwrapRight(), 1);
+});
+
+test("malformed input is rejected", (t) => {
+    const cases: unknown[] = [
+        null,
+        { value: 1 },
+        { $teav: "Some" },
+        { $teav: "Err" },
+        { $teav: "Err", value: 1 },
+        { $teav: "Err", value: { $teav: "Error", name: 1, message: "" } },
+        { $teav: "Maybe", value: 1 },
+        { $teav: "Some", value: 1 },
+    ];
+
+    for (const json of cases) {
+        const result = Result.fromJSON(json);
+
+        t.true(result.err().unwrap() instanceof MalformedJSONError);
+    }
+
+    t.is(
+        Option.fromJSON({ $teav: "Some", value: { $teav: "Nope" } })
+            .err()
+            .unwrap().path,
+        "$.value"
+    );
+});
@@ -0,0 +1,356 @@
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+/**
+ * The key used to tag serialized teav values.
+ */
+export const JSON_TAG = "$teav";
+
+/**
+ * The serialized form of an `Error`. The `cause` chain and the `errors` of an
+ * `AggregateError` are serialized recursively.
+ */
+export interface ErrorJSON {
+    $teav: "Error";
+    name: string;
+    message: string;
+    stack?: string;
+    cause?: unknown;
+    errors?: unknown[];
+    /** The `_tag` of tagged errors. */
+    tag?: string;
+    /** The own enumerable fields of the error, such as the fields of tagged errors. */
+    fields?: Record<string, unknown>;
+}
+
+/**
+ * The serialized form of a `Result`.
+ *
+ * - `Ok(value)` becomes `{ "$teav": "Ok", "value": value }`.
+ * - `Err(error)` becomes `{ "$teav": "Err", "value": ErrorJSON }`.
+ *
+ * An `undefined` value is left out by `JSON.stringify`, and revived as `undefined`.
+ */
+export type ResultJSON<T> =
+    { $teav: "Ok"; value: T } | { $teav: "Err"; value: ErrorJSON };
+
+/**
+ * The serialized form of an `Option`.
+ *
+ * - `Some(value)` becomes `{ "$teav": "Some", "value": value }`.
+ * - `None` becomes `{ "$teav": "None" }`.
+ *
+ * An `undefined` value is left out by `JSON.stringify`, and revived as `undefined`.
+ */
+export type OptionJSON<T> = { $teav: "Some"; value: T } | { $teav: "None" };
+
+/**
+ * The serialized form of an `Either`.
+ *
+ * - `Left(value)` becomes `{ "$teav": "Left", "value": value }`.
+ * - `Right(value)` becomes `{ "$teav": "Right", "value": value }`.
+ *
+ * An `undefined` value is left out by `JSON.stringify`, and revived as `undefined`.
+ */
+export type EitherJSON<L, R> =
+    { $teav: "Left"; value: L } | { $teav: "Right"; value: R };
+
+/**
+ * Options accepted by `Result.fromJSON`, `Option.fromJSON` and `Either.fromJSON`.
+ */
+export interface FromJSONOptions {
+    /**
+     * Error classes used to rebuild serialized errors, matched by name.
+     * Built-in error classes such as `TypeError` are always recognized.
+     * Errors with an unknown name are rebuilt as plain `Error`s with their original name.
+     */
+    errors?: Array<new (...args: any[]) => Error>;
+}
+
+/**
+ * The error returned when a value passed to `fromJSON` is not a valid serialized teav value.
+ */
+export class MalformedJSONError extends Error {
+    constructor(
+        message: string,
+        readonly path: string
+    ) {
+        super(`${message} at ${path}`);
+
+        this.name = "MalformedJSONError";
+    }
+}
+
+const BUILTIN_ERRORS: Array<new (...args: any[]) => Error> = [
+    Error,
+    AggregateError,
+    EvalError,
+    RangeError,
+    ReferenceError,
+    SyntaxError,
+    TypeError,
+    URIError,
+];
+
+// Keys serialized on their own, and left out of the fields.
+const ERROR_KEYS = ["_tag", "name", "message", "stack", "cause", "errors"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null;
+}
+
+/**
+ * The value serialized in place of an error that is its own cause, directly or
+ * through other errors.
+ */
+const CIRCULAR = "[Circular]";
+
+/**
+ * Serializes an error, including its `cause` chain. An error found again in its
+ * own `cause` chain or `errors` is serialized as `"[Circular]"`.
+ * @param error - The error to serialize.
+ * @returns The serialized error.
+ */
+export function serializeError(error: Error): ErrorJSON {
+    return serializeErrorWith(error, new Set());
+}
+
+function serializeNested(value: unknown, seen: Set<Error>): unknown {
+    if (!(value instanceof Error)) {
+        return value;
+    }
+
+    return seen.has(value) ? CIRCULAR : serializeErrorWith(value, seen);
+}
+
+function serializeErrorWith(error: Error, seen: Set<Error>): ErrorJSON {
+    seen.add(error);
+
+    const json: ErrorJSON = {
+        $teav: "Error",
+        name: error.name,
+        message: error.message,
+    };
+
+    if (error.stack !== undefined) {
+        json.stack = error.stack;
+    }
+
+    if (error.cause !== undefined) {
+        json.cause = serializeNested(error.cause, seen);
+    }
+
+    if (error instanceof AggregateError) {
+        json.errors = error.errors.map((inner) => serializeNested(inner, seen));
+    }
+
+    const tag = (error as { _tag?: unknown })._tag;
+
+    if (typeof tag === "string") {
+        json.tag = tag;
+    }
+
+    const fields = Object.entries(error).filter(
+        ([key]) => !ERROR_KEYS.includes(key)
+    );
+
+    if (fields.length > 0) {
+        json.fields = Object.fromEntries(
+            fields.map(([key, value]) => [key, serializeNested(value, seen)])
+        );
+    }
+
+    seen.delete(error);
+
+    return json;
+}
+
+function reviveError(
+    json: Record<string, unknown>,
+    path: string,
+    options: FromJSONOptions
+): Result<Error, MalformedJSONError> {
+    const { name, message, stack, tag } = json;
+
+    if (typeof name !== "string" || typeof message !== "string") {
+        return Result.Err(
+            new MalformedJSONError(
+                "Expected a serialized error with a string name and message",
+                path
+            )
+        );
+    }
+
+    if (stack !== undefined && typeof stack !== "string") {
+        return Result.Err(
+            new MalformedJSONError(
+                "Expected the error stack to be a string",
+                path
+            )
+        );
+    }
+
+    if (tag !== undefined && typeof tag !== "string") {
+        return Result.Err(
+            new MalformedJSONError(
+                "Expected the error tag to be a string",
+                path
+            )
+        );
+    }
+
+    if (json.fields !== undefined && !isRecord(json.fields)) {
+        return Result.Err(
+            new MalformedJSONError(
+                "Expected the error fields to be an object",
+                path
+            )
+        );
+    }
+
+    const cause =
+        json.cause === undefined
+            ? Result.Ok(undefined)
+            : revive(json.cause, `${path}.cause`, options);
+    const errors = Array.isArray(json.errors)
+        ? Result.collect(
+              json.errors.map((inner, i) =>
+                  revive(inner, `${path}.errors[${i}]`, options)
+              )
+          )
+        : Result.Ok(undefined);
+    const fields =
+        json.fields === undefined
+            ? Result.Ok({})
+            : revive(json.fields, `${path}.fields`, options);
+
+    return Result.all([cause, errors, fields]).map(
+        ([cause, errors, fields]) => {
+            const ctor =
+                [...(options.errors ?? []), ...BUILTIN_ERRORS].find(
+                    (ctor) =>
+                        (tag !== undefined && ctor.prototype._tag === tag) ||
+                        ctor.name === name ||
+                        ctor.prototype.name === name
+                ) ?? Error;
+
+            const error = new Error(message);
+            Object.setPrototypeOf(error, ctor.prototype);
+
+            if (error.name !== name) {
+                error.name = name;
+            }
+
+            if (stack !== undefined) {
+                error.stack = stack;
+            }
+
+            if (cause !== undefined) {
+                error.cause = cause;
+            }
+
+            if (errors !== undefined) {
+                (error as AggregateError).errors = errors;
+            }
+
+            Object.assign(error, fields);
+
+            // Errors revived without their class keep their tag as an own field.
+            if (
+                tag !== undefined &&
+                (error as { _tag?: unknown })._tag !== tag
+            ) {
+                Object.assign(error, { _tag: tag });
+            }
+
+            return error;
+        }
+    );
+}
+
+function reviveTagged(
+    json: Record<string, unknown>,
+    path: string,
+    options: FromJSONOptions
+): Result<unknown, MalformedJSONError> {
+    const tag = json[JSON_TAG];
+
+    if (tag === "None") {
+        return Result.Ok(Option.None());
+    }
+
+    if (tag === "Error") {
+        return reviveError(json, path, options);
+    }
+
+    if (tag === "Err" && !("value" in json)) {
+        return Result.Err(
+            new MalformedJSONError(`Expected "${tag}" to have a value`, path)
+        );
+    }
+
+    // `JSON.stringify` leaves out `undefined` values, so a missing value is `undefined`.
+    const value = revive(json.value, `${path}.value`, options);
+
+    switch (tag) {
+        case "Ok":
+            return value.map(Result.Ok);
+        case "Err":
+            return value.andThen((error) =>
+                error instanceof Error
+                    ? Result.Ok(Result.Err(error))
+                    : Result.Err(
+                          new MalformedJSONError(
+                              "Expected a serialized error",
+                              `${path}.value`
+                          )
+                      )
+            );
+        case "Some":
+            return value.map(Option.Some);
+        case "Left":
+            return value.map(Either.Left);
+        case "Right":
+            return value.map(Either.Right);
+        default:
+            return Result.Err(
+                new MalformedJSONError(`Unknown tag ${String(tag)}`, path)
+            );
+    }
+}
+
+/**
+ * Rebuilds every serialized teav value and error nested in a parsed JSON value.
+ * @param json - A parsed JSON value.
+ * @param path - The path of the value, used in error messages.
+ * @param options - Options for rebuilding errors.
+ * @returns The revived value, or an error describing the first malformed value.
+ */
+export function revive(
+    json: unknown,
+    path: string,
+    options: FromJSONOptions
+): Result<unknown, MalformedJSONError> {
+    if (Array.isArray(json)) {
+        return Result.collect(
+            json.map((item, i) => revive(item, `${path}[${i}]`, options))
+        );
+    }
+
+    if (!isRecord(json)) {
+        return Result.Ok(json);
+    }
+
+    if (JSON_TAG in json) {
+        return reviveTagged(json, path, options);
+    }
+
+    const entries = Object.entries(json).map(([key, value]) =>
+        revive(value, `${path}.${key}`, options).map(
+            (revived) => [key, revived] as const
+        )
+    );
+
+    return Result.collect(entries).map(Object.fromEntries);
+}
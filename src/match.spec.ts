@@ -0,0 +1,101 @@
+import test from "ava";
+import { testProp, fc } from "@fast-check/ava";
+import { match, P } from "./match";
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+class NotFoundError extends Error {}
+
+const genResults = (v: number) =>
+    [
+        Result.Ok(Option.Some(v)),
+        Result.Ok(Option.None()),
+        Result.Err(new NotFoundError(`${v}`)),
+        Result.Err(new Error(`${v}`)),
+    ] as Array<Result<Option<number>, Error>>;
+
+testProp("instance match", [fc.anything()], (t, v) => {
+    t.is(Result.Ok(v).match({ Ok: (x) => x, Err: () => undefined }), v);
+    t.is(
+        Result.Err(new Error()).match({ Ok: () => false, Err: () => true }),
+        true
+    );
+    t.is(Option.Some(v).match({ Some: (x) => x, None: () => undefined }), v);
+    t.is(Option.None().match({ Some: () => false, None: () => true }), true);
+    t.is(Either.Left(v).match({ Left: (x) => x, Right: () => undefined }), v);
+    t.is(Either.Right(v).match({ Left: () => undefined, Right: (x) => x }), v);
+});
+
+testProp("nested patterns", [fc.integer()], (t, v) => {
+    const [okSome, okNone, notFound, other] = genResults(v).map((result) =>
+        match(result)
+            .with(P.Ok(P.Some(P._)), (x) => `some ${x + 0}`)
+            .with(P.Ok(P.None), () => "none")
+            .with(P.Err(P.instanceOf(NotFoundError)), (e) => `nf ${e.message}`)
+            .with(P.Err(P._), (e) => `err ${e.message}`)
+            .exhaustive()
+    );
+
+    t.is(okSome, `some ${v}`);
+    t.is(okNone, "none");
+    t.is(notFound, `nf ${v}`);
+    t.is(other, `err ${v}`);
+});
+
+testProp("guards and literals", [fc.integer()], (t, v) => {
+    const result = match(Option.Some(v))
+        .with(P.Some(0), () => "zero")
+        .with(
+            P.Some(P._),
+            (x) => x < 0,
+            () => "negative"
+        )
+        .with(P.Some(P.when((x: number) => x % 2 === 0)), () => "even")
+        .with(P.Some(P._), () => "odd")
+        .with(P.None, () => "none")
+        .exhaustive();
+
+    const expected =
+        v === 0 ? "zero" : v < 0 ? "negative" : v % 2 === 0 ? "even" : "odd";
+
+    t.is(result, expected);
+});
+
+test("when and otherwise", (t) => {
+    const describe = (value: Either<string, number>) =>
+        match(value)
+            .when(
+                (either) => either.isRightAnd((x) => x > 10),
+                () => "big"
+            )
+            .with(P.Left("special"), () => "special")
+            .otherwise(() => "other");
+
+    t.is(describe(Either.Right(20)), "big");
+    t.is(describe(Either.Left("special")), "special");
+    t.is(describe(Either.Right(1)), "other");
+});
+
+test("exhaustive requires every variant", (t) => {
+    const value = Result.Err(new Error()) as Result<Option<number>, Error>;
+
+    t.throws(() =>
+        match(value)
+            .with(P.Ok(P.Some(P._)), () => 1)
+            .with(
+                P.Ok(P.Some(P._)),
+                (x) => x > 0,
+                () => 2
+            )
+            // @ts-expect-error `Ok.None` and `Err` are not handled.
+            .exhaustive()
+    );
+
+    t.is(
+        match(value)
+            .with(P._, () => 1)
+            .exhaustive(),
+        1
+    );
+});
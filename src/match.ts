@@ -0,0 +1,349 @@
+import { Either, Left, Right } from "./structs/either";
+import { None, Option, Some } from "./structs/option";
+import { Err, Ok, Result } from "./structs/result";
+
+type Literal = string | number | boolean | bigint | null | undefined;
+
+type VariantTag = "Ok" | "Err" | "Some" | "Left" | "Right";
+
+/**
+ * Matches any value and selects it.
+ */
+export interface WildcardPattern {
+    readonly kind: "_";
+}
+
+/**
+ * Matches the `None` variant of an `Option`.
+ */
+export interface NonePattern {
+    readonly kind: "None";
+}
+
+/**
+ * Matches a variant of a `Result`, `Option` or `Either` whose contained value
+ * matches the inner pattern.
+ */
+export interface VariantPattern<K extends VariantTag, P> {
+    readonly kind: K;
+    readonly inner: P;
+}
+
+/**
+ * Matches any value for which the predicate returns `true`.
+ */
+export interface WhenPattern<N> {
+    readonly kind: "when";
+    readonly predicate: (value: any) => boolean;
+    /** Phantom field carrying the narrowed type of a type guard predicate. */
+    readonly narrowed?: N;
+}
+
+/**
+ * A pattern accepted by `match(value).with(...)`. Primitive literals match by `Object.is`.
+ */
+export type Pattern =
+    | WildcardPattern
+    | NonePattern
+    | VariantPattern<VariantTag, unknown>
+    | WhenPattern<unknown>
+    | Literal;
+
+type OkValue<V> = V extends Result<infer T, any> ? T : never;
+type ErrValue<V> = V extends Result<any, infer E> ? E : never;
+type SomeValue<V> = V extends Option<infer T> ? T : never;
+type LeftValue<V> = V extends Either<infer L, any> ? L : never;
+type RightValue<V> = V extends Either<any, infer R> ? R : never;
+
+/**
+ * The value passed to a handler when `Pat` matches a value of type `V`. Wildcards
+ * and predicates select the value at their position, which for nested patterns
+ * such as `P.Ok(P.Some(P._))` is the innermost value.
+ */
+export type Select<V, Pat> = Pat extends WildcardPattern
+    ? V
+    : Pat extends NonePattern
+      ? None
+      : Pat extends WhenPattern<infer N>
+        ? unknown extends N
+            ? V
+            : N extends V
+              ? N
+              : V & N
+        : Pat extends VariantPattern<"Ok", infer P>
+          ? Select<OkValue<V>, P>
+          : Pat extends VariantPattern<"Err", infer P>
+            ? Select<ErrValue<V>, P>
+            : Pat extends VariantPattern<"Some", infer P>
+              ? Select<SomeValue<V>, P>
+              : Pat extends VariantPattern<"Left", infer P>
+                ? Select<LeftValue<V>, P>
+                : Pat extends VariantPattern<"Right", infer P>
+                  ? Select<RightValue<V>, P>
+                  : Pat;
+
+type Prefix<K extends string, S extends string> = S extends "*"
+    ? K
+    : `${K}.${S}`;
+
+/**
+ * The variant paths (such as `"Ok.Some"` or `"Err"`) that a value of type `V` can take.
+ * `"*"` stands for a value that is not a `Result`, `Option` or `Either`.
+ */
+type Tags<V, Depth extends unknown[] = []> = Depth["length"] extends 4
+    ? "*"
+    : V extends Ok<infer T>
+      ? Prefix<"Ok", Tags<T, [...Depth, V]>>
+      : V extends Err<infer E>
+        ? Prefix<"Err", Tags<E, [...Depth, V]>>
+        : V extends Result<infer T, infer E>
+          ? | Prefix<"Ok", Tags<T, [...Depth, V]>>
+            | Prefix<"Err", Tags<E, [...Depth, V]>>
+          : V extends None
+            ? "None"
+            : V extends Some<infer T>
+              ? Prefix<"Some", Tags<T, [...Depth, V]>>
+              : V extends Option<infer T>
+                ? Prefix<"Some", Tags<T, [...Depth, V]>> | "None"
+                : V extends Left<infer L>
+                  ? Prefix<"Left", Tags<L, [...Depth, V]>>
+                  : V extends Right<infer R>
+                    ? Prefix<"Right", Tags<R, [...Depth, V]>>
+                    : V extends Either<infer L, infer R>
+                      ? | Prefix<"Left", Tags<L, [...Depth, V]>>
+                        | Prefix<"Right", Tags<R, [...Depth, V]>>
+                      : "*";
+
+/**
+ * The variant paths that a pattern handles completely, i.e. without predicates or literals.
+ */
+type Covers<Pat> = Pat extends WildcardPattern
+    ? "*"
+    : Pat extends NonePattern
+      ? "None"
+      : Pat extends VariantPattern<infer K, infer P>
+        ? Prefix<K, Covers<P>>
+        : never;
+
+type Uncovered<Remaining extends string, C extends string> = "*" extends C
+    ? never
+    : Remaining extends C | `${C}.${string}`
+      ? never
+      : Remaining;
+
+interface Arm {
+    readonly pattern: Pattern;
+    readonly guard?: (selected: any) => boolean;
+    readonly handler: (selected: any, value: any) => unknown;
+}
+
+function isPatternObject(
+    pattern: Pattern
+): pattern is Exclude<Pattern, Literal> {
+    return typeof pattern === "object" && pattern !== null;
+}
+
+function select(pattern: Pattern, value: unknown): Option<unknown> {
+    if (!isPatternObject(pattern)) {
+        return Object.is(pattern, value) ? Option.Some(value) : Option.None();
+    }
+
+    switch (pattern.kind) {
+        case "_":
+            return Option.Some(value);
+        case "when":
+            return pattern.predicate(value)
+                ? Option.Some(value)
+                : Option.None();
+        case "None":
+            return Option.isOption(value) && value.isNone()
+                ? Option.Some(value)
+                : Option.None();
+        case "Some":
+            return Option.isOption(value) && value.isSome()
+                ? select(pattern.inner as Pattern, value.unwrap())
+                : Option.None();
+        case "Ok":
+            return Result.isResult(value) && value.isOk()
+                ? select(pattern.inner as Pattern, value.unwrap())
+                : Option.None();
+        case "Err":
+            return Result.isResult(value) && value.isErr()
+                ? select(pattern.inner as Pattern, value.err().unwrap())
+                : Option.None();
+        case "Left":
+            return Either.isEither(value) && value.isLeft()
+                ? select(pattern.inner as Pattern, value.unwrapLeft())
+                : Option.None();
+        case "Right":
+            return Either.isEither(value) && value.isRight()
+                ? select(pattern.inner as Pattern, value.unwrapRight())
+                : Option.None();
+    }
+}
+
+/**
+ * A builder returned by `match(value)`. Arms are tried in the order in which
+ * they were added, and the handler of the first matching arm is called.
+ *
+ * `exhaustive()` only type-checks once every variant of the matched value has
+ * been handled by an arm without a guard; otherwise, the missing variants are
+ * reported as a required argument.
+ */
+export class Matcher<V, R = never, Remaining extends string = Tags<V>> {
+    constructor(
+        private readonly value: V,
+        private readonly arms: ReadonlyArray<Arm> = []
+    ) {}
+
+    /**
+     * Adds an arm that matches a pattern.
+     * @param pattern - The pattern to match against the value.
+     * @param handler - A function receiving the selected value and the original value.
+     * @returns A new matcher with the arm added.
+     */
+    with<Pat extends Pattern, U>(
+        pattern: Pat,
+        handler: (selected: Select<V, Pat>, value: V) => U
+    ): Matcher<V, R | U, Uncovered<Remaining, Covers<Pat>>>;
+
+    /**
+     * Adds an arm that matches a pattern and an additional guard.
+     * @param pattern - The pattern to match against the value.
+     * @param guard - A predicate that the selected value must satisfy.
+     * @param handler - A function receiving the selected value and the original value.
+     * @returns A new matcher with the arm added.
+     */
+    with<Pat extends Pattern, U>(
+        pattern: Pat,
+        guard: (selected: Select<V, Pat>) => boolean,
+        handler: (selected: Select<V, Pat>, value: V) => U
+    ): Matcher<V, R | U, Remaining>;
+
+    with(
+        pattern: Pattern,
+        ...rest:
+            | [handler: Arm["handler"]]
+            | [guard: NonNullable<Arm["guard"]>, handler: Arm["handler"]]
+    ): Matcher<V, unknown, any> {
+        const arm: Arm =
+            rest.length === 1
+                ? { pattern, handler: rest[0] }
+                : { pattern, guard: rest[0], handler: rest[1] };
+
+        return new Matcher(this.value, [...this.arms, arm]);
+    }
+
+    /**
+     * Adds an arm that matches when a predicate on the whole value returns `true`.
+     * @param predicate - A predicate to apply to the value.
+     * @param handler - A function receiving the value.
+     * @returns A new matcher with the arm added.
+     */
+    when<U>(
+        predicate: (value: V) => boolean,
+        handler: (value: V) => U
+    ): Matcher<V, R | U, Remaining> {
+        return new Matcher(this.value, [
+            ...this.arms,
+            { pattern: P.when(predicate), handler },
+        ]);
+    }
+
+    /**
+     * Evaluates the arms, falling back to a default handler if none of them match.
+     * @param handler - A function receiving the value if no arm matches.
+     * @returns The result of the matching handler.
+     */
+    otherwise<U>(handler: (value: V) => U): R | U {
+        return this.run().unwrapOrElse(() => handler(this.value)) as R | U;
+    }
+
+    /**
+     * Evaluates the arms. Only type-checks when every variant has been handled.
+     * @returns The result of the matching handler.
+     * @throws Error if no arm matches, which can only happen if the value's type was wrong.
+     */
+    exhaustive(
+        ...missing: [Remaining] extends [never] ? [] : [missing: Remaining]
+    ): R {
+        return this.run().expect("No pattern matched the value") as R;
+    }
+
+    private run(): Option<unknown> {
+        for (const arm of this.arms) {
+            const selected = select(arm.pattern, this.value);
+
+            if (
+                selected.isSome() &&
+                (arm.guard === undefined || arm.guard(selected.unwrap()))
+            ) {
+                return Option.Some(arm.handler(selected.unwrap(), this.value));
+            }
+        }
+
+        return Option.None();
+    }
+}
+
+/**
+ * Starts a pattern match on a value.
+ *
+ * Example:
+ * ```
+ * const message = match(loadConfig())
+ *   .with(P.Ok(P.Some(P._)), (config) => `Loaded ${config.name}`)
+ *   .with(P.Ok(P.None), () => "No config found")
+ *   .with(P.Err(P.instanceOf(SyntaxError)), (error) => `Invalid config: ${error.message}`)
+ *   .with(P.Err(P._), (error) => `Could not load config: ${error.message}`)
+ *   .exhaustive();
+ * ```
+ * @param value - The value to match on.
+ * @returns A matcher to which arms can be added.
+ */
+export function match<V>(value: V): Matcher<V> {
+    return new Matcher(value);
+}
+
+const _: WildcardPattern = { kind: "_" };
+
+const NONE: NonePattern = { kind: "None" };
+
+function variant<K extends VariantTag>(kind: K) {
+    return <P extends Pattern = WildcardPattern>(
+        inner: P = _ as P
+    ): VariantPattern<K, P> => ({ kind, inner });
+}
+
+function when<N>(predicate: (value: any) => value is N): WhenPattern<N>;
+function when(predicate: (value: any) => boolean): WhenPattern<unknown>;
+function when(predicate: (value: any) => boolean): WhenPattern<unknown> {
+    return { kind: "when", predicate };
+}
+
+function instanceOf<C extends abstract new (...args: any[]) => any>(
+    ctor: C
+): WhenPattern<InstanceType<C>> {
+    return { kind: "when", predicate: (value) => value instanceof ctor };
+}
+
+/**
+ * Pattern constructors for `match`.
+ *
+ * - `P._` matches anything.
+ * - `P.Ok(p)`, `P.Err(p)`, `P.Some(p)`, `P.Left(p)` and `P.Right(p)` match a variant
+ *   whose contained value matches `p` (defaulting to `P._`).
+ * - `P.None` matches `None`.
+ * - `P.when(predicate)` and `P.instanceOf(Ctor)` match values satisfying a predicate.
+ */
+export const P = {
+    _,
+    Ok: variant("Ok"),
+    Err: variant("Err"),
+    Some: variant("Some"),
+    None: NONE,
+    Left: variant("Left"),
+    Right: variant("Right"),
+    when,
+    instanceOf,
+};
@@ -0,0 +1,145 @@
+import test from "ava";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import vm from "node:vm";
+import {
+    SYM_ERR,
+    SYM_LEFT,
+    SYM_NONE,
+    SYM_OK,
+    SYM_RIGHT,
+    SYM_SOME,
+} from "./constants";
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+// Loads a second, independent copy of the library, as happens when two
+// versions of teav end up in the same node_modules tree.
+const loadCopy = (): typeof import("./index") => {
+    const root = path.dirname(require.resolve("./index"));
+    const cached = Object.keys(require.cache).filter((key) =>
+        key.startsWith(root)
+    );
+    const saved = cached.map((key) => [key, require.cache[key]] as const);
+
+    cached.forEach((key) => delete require.cache[key]);
+
+    try {
+        return require("./index");
+    } finally {
+        saved.forEach(([key, module]) => (require.cache[key] = module));
+    }
+};
+
+// Evaluates the library inside a new `vm` context, with its own globals and
+// built-in prototypes, as happens with iframes and worker-like sandboxes.
+const loadInRealm = (context: vm.Context): typeof import("./index") => {
+    const modules = new Map<string, { exports: object }>();
+
+    const load = (file: string): object => {
+        const cached = modules.get(file);
+
+        if (cached !== undefined) {
+            return cached.exports;
+        }
+
+        const module = { exports: {} };
+        const wrapper = vm.runInContext(
+            `(function (exports, require, module) {${readFileSync(file, "utf8")}\n})`,
+            context,
+            { filename: file }
+        );
+
+        modules.set(file, module);
+        wrapper(
+            module.exports,
+            (specifier: string) =>
+                specifier.startsWith(".")
+                    ? load(
+                          require.resolve(
+                              path.resolve(path.dirname(file), specifier)
+                          )
+                      )
+                    : require(specifier),
+            module
+        );
+
+        return module.exports;
+    };
+
+    return load(require.resolve("./index")) as typeof import("./index");
+};
+
+const copy = loadCopy();
+const context = vm.createContext({});
+
+context.teav = loadInRealm(context);
+
+test("the copy is independent", (t) => {
+    t.not(copy.Result, Result);
+    t.false(copy.Result.Ok(1) instanceof Result);
+});
+
+test("guards recognize values from another copy", (t) => {
+    t.true(Result.isResult(copy.Result.Ok(1)));
+    t.true(Result.isResult(copy.Result.Err(new Error())));
+    t.true(Option.isOption(copy.Option.Some(1)));
+    t.true(Option.isOption(copy.Option.None()));
+    t.true(Either.isEither(copy.Either.Left(1)));
+    t.true(Either.isEither(copy.Either.Right(1)));
+});
+
+test("guards reject other values", (t) => {
+    const values = [null, undefined, 1, "Ok", {}, [], new Error()];
+
+    for (const value of values) {
+        t.false(Result.isResult(value));
+        t.false(Option.isOption(value));
+        t.false(Either.isEither(value));
+    }
+
+    t.false(Result.isResult(Option.Some(1)));
+    t.false(Option.isOption(Result.Ok(1)));
+    t.false(Either.isEither(Result.Ok(1)));
+});
+
+test("flatten works across copies", (t) => {
+    t.is(Result.Ok(copy.Result.Ok(1)).flatten().unwrap(), 1);
+    t.is(Option.Some(copy.Option.Some(1)).flatten().unwrap(), 1);
+    t.true(Result.Ok(copy.Result.Err(new Error())).flatten().isErr());
+});
+
+test("guards recognize values created in another realm", (t) => {
+    const [ok, err, some, none, left, right] = vm.runInContext(
+        `[
+            teav.Result.Ok(1),
+            teav.Result.Err(new Error("failed")),
+            teav.Option.Some(1),
+            teav.Option.None(),
+            teav.Either.Left(1),
+            teav.Either.Right(1),
+        ]`,
+        context
+    );
+
+    t.false(ok instanceof Object);
+    t.false(err.err().unwrap() instanceof Error);
+
+    t.true(Result.isResult(ok));
+    t.true(Result.isResult(err));
+    t.true(Option.isOption(some));
+    t.true(Option.isOption(none));
+    t.true(Either.isEither(left));
+    t.true(Either.isEither(right));
+
+    t.true(Reflect.has(ok, SYM_OK));
+    t.true(Reflect.has(err, SYM_ERR));
+    t.true(Reflect.has(some, SYM_SOME));
+    t.true(Reflect.has(none, SYM_NONE));
+    t.true(Reflect.has(left, SYM_LEFT));
+    t.true(Reflect.has(right, SYM_RIGHT));
+
+    t.is(Result.Ok(ok).flatten().unwrap(), 1);
+    t.true(Option.Some(none).flatten().isNone());
+});
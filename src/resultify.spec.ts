@@ -0,0 +1,113 @@
+import test from "ava";
+import { resultify } from "./resultify";
+import { AsyncResult } from "./structs/async-result";
+import { Result } from "./structs/result";
+
+class NotFoundError extends Error {}
+
+const users: Record<string, string> = { "1": "Ada" };
+
+const findUser = (id: string, prefix = "") => {
+    if (!(id in users)) {
+        throw new NotFoundError(id);
+    }
+
+    return `${prefix}${users[id]}`;
+};
+
+test("wrap returns a function returning Results", (t) => {
+    const safeFindUser = Result.wrap(findUser, [NotFoundError]);
+    const found: Result<string, NotFoundError> = safeFindUser("1", "Dr. ");
+
+    t.is(found.unwrap(), "Dr. Ada");
+    t.true(safeFindUser("2").err().unwrap() instanceof NotFoundError);
+    t.throws(() => Result.wrap(findUser, [TypeError])("2"), {
+        instanceOf: NotFoundError,
+    });
+});
+
+test("wrap preserves this", (t) => {
+    const client = {
+        name: "client",
+        getName() {
+            return this.name;
+        },
+    };
+    const getName = Result.wrap(client.getName, []);
+
+    t.is(getName.call(client).unwrap(), "client");
+});
+
+test("wrapAsync returns a function returning promises of Results", async (t) => {
+    const safeFindUser = Result.wrapAsync(
+        async (id: string) => findUser(id),
+        [NotFoundError]
+    );
+
+    t.is((await safeFindUser("1")).unwrap(), "Ada");
+    t.true((await safeFindUser("2")).isErr());
+});
+
+class UserClient {
+    constructor(private readonly prefix: string) {}
+
+    @resultify([NotFoundError])
+    find(id: string): Result<string, NotFoundError> {
+        return Result.Ok(findUser(id, this.prefix));
+    }
+
+    @resultify([NotFoundError])
+    async findAsync(id: string): Promise<Result<string, NotFoundError>> {
+        return Result.Ok(findUser(id, this.prefix));
+    }
+
+    @resultify([NotFoundError])
+    findLater(id: string): AsyncResult<string, NotFoundError> {
+        return AsyncResult.unsafeFrom(async () => findUser(id, this.prefix));
+    }
+
+    @resultify([NotFoundError])
+    findEagerly(id: string): Promise<Result<string, NotFoundError>> {
+        return Promise.resolve(Result.Ok(findUser(id, this.prefix)));
+    }
+
+    @resultify([NotFoundError])
+    fail(): Result<never, NotFoundError> {
+        throw new TypeError();
+    }
+}
+
+test("resultify turns expected errors into Errs", async (t) => {
+    const client = new UserClient("Dr. ");
+
+    t.is(client.find("1").unwrap(), "Dr. Ada");
+    t.true(client.find("2").err().unwrap() instanceof NotFoundError);
+    t.is((await client.findAsync("1")).unwrap(), "Dr. Ada");
+    t.true(
+        (await client.findAsync("2")).err().unwrap() instanceof NotFoundError
+    );
+    t.throws(() => client.fail(), { instanceOf: TypeError });
+});
+
+test("resultify keeps AsyncResults", async (t) => {
+    const client = new UserClient("Dr. ");
+    const found = client.findLater("1");
+
+    t.true(found instanceof AsyncResult);
+    t.is((await found.map((name) => name.toUpperCase())).unwrap(), "DR. ADA");
+    t.true(
+        (await client.findLater("2").andThen(AsyncResult.Ok))
+            .err()
+            .unwrap() instanceof NotFoundError
+    );
+});
+
+test("resultify returns a plain Err when a method throws before returning its promise", async (t) => {
+    const client = new UserClient("Dr. ");
+    const missing = client.findEagerly("2");
+
+    t.is((await client.findEagerly("1")).unwrap(), "Dr. Ada");
+    t.false(missing instanceof Promise);
+    t.true(Result.isResult(missing));
+    t.true((await missing).err().unwrap() instanceof NotFoundError);
+});
@@ -0,0 +1,71 @@
+import { AsyncResult } from "./structs/async-result";
+import { ErrorClass, Result } from "./structs/result";
+
+type ResultReturn =
+    Result<unknown, Error> | PromiseLike<Result<unknown, Error>>;
+
+/**
+ * Creates a method decorator that turns expected errors thrown by a method into `Err`s.
+ * The method must be declared as returning a Result, a promise of a Result or an
+ * AsyncResult, whose error type includes the expected errors. Results returned by the
+ * method are passed through unchanged, AsyncResults are returned as AsyncResults, and
+ * unexpected errors are rethrown.
+ *
+ * The kind of a return value is only known once the method has returned, so a method
+ * that throws an expected error synchronously instead of returning its promise or
+ * AsyncResult gets a plain Err, whatever its declared return type. Awaiting it still
+ * gives the Err, but AsyncResult methods cannot be chained on it. `async` methods never
+ * throw synchronously and are not affected.
+ *
+ * Example:
+ * ```
+ * class UserClient {
+ *   @resultify([NotFoundError, NetworkError])
+ *   async fetchUser(id: string): Promise<Result<User, NotFoundError | NetworkError>> {
+ *     return Result.Ok(await this.http.get(`/users/${id}`));
+ *   }
+ * }
+ * ```
+ * @param expectedErrors - An array of expected error constructors.
+ * @returns A decorator for methods returning a Result, a promise of a Result or an AsyncResult.
+ */
+export function resultify(expectedErrors: ErrorClass[]) {
+    const recover = (error: unknown) => {
+        if (
+            expectedErrors.some(
+                (expectedError) => error instanceof expectedError
+            )
+        ) {
+            return Result.Err(error as Error);
+        }
+
+        throw error;
+    };
+
+    return function <This, A extends unknown[], R extends ResultReturn>(
+        method: (this: This, ...args: A) => R,
+        context: ClassMethodDecoratorContext<
+            This,
+            (this: This, ...args: A) => R
+        >
+    ): (this: This, ...args: A) => R {
+        return function (this: This, ...args: A): R {
+            try {
+                const returned = method.apply(this, args);
+
+                if (Result.isResult(returned)) {
+                    return returned;
+                }
+
+                const recovered: Promise<Result<unknown, Error>> =
+                    Promise.resolve(returned).then(undefined, recover);
+
+                return (returned instanceof AsyncResult
+                    ? AsyncResult.fromPromise(recovered)
+                    : recovered) as ResultReturn as R;
+            } catch (error) {
+                return recover(error) as any;
+            }
+        };
+    };
+}
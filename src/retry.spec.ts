@@ -0,0 +1,124 @@
+import test from "ava";
+import { testProp, fc } from "@fast-check/ava";
+import { retryDelay, RetryError, RetryPolicy } from "./retry";
+import { AsyncResult } from "./structs/async-result";
+import { Result } from "./structs/result";
+
+class FlakyError extends Error {}
+class FatalError extends Error {}
+
+const fakeTimers = () => {
+    let time = 0;
+    const delays: number[] = [];
+
+    return {
+        delays,
+        now: () => time,
+        sleep: async (ms: number) => {
+            delays.push(ms);
+            time += ms;
+        },
+    };
+};
+
+test("retry returns the first Ok", async (t) => {
+    const timers = fakeTimers();
+    const attempts: number[] = [];
+
+    const result = await Result.retry(
+        async (attempt) => {
+            attempts.push(attempt);
+
+            return attempt < 3
+                ? Result.Err(new FlakyError())
+                : Result.Ok("done");
+        },
+        { maxAttempts: 5, delayMs: 10, ...timers }
+    );
+
+    t.is(result.unwrap(), "done");
+    t.deepEqual(attempts, [1, 2, 3]);
+    t.deepEqual(timers.delays, [10, 20]);
+});
+
+test("retry collects the error of every attempt", async (t) => {
+    const timers = fakeTimers();
+    const errors = [new FlakyError("1"), new FlakyError("2")];
+
+    const result = await Result.retry(
+        (attempt) => AsyncResult.Err(errors[attempt - 1]),
+        { maxAttempts: 2, backoff: "constant", ...timers }
+    );
+
+    const error = result.err().unwrap();
+
+    t.true(error instanceof RetryError);
+    t.is(error.message, "Failed after 2 attempts");
+    t.deepEqual(error.errors, errors);
+    t.deepEqual(timers.delays, [100]);
+});
+
+test("retry stops on errors that are not retryable", async (t) => {
+    const timers = fakeTimers();
+
+    const result = await Result.retry<never, FlakyError | FatalError>(
+        (attempt) =>
+            Result.Err(attempt === 1 ? new FlakyError() : new FatalError()),
+        {
+            maxAttempts: 10,
+            retryIf: (error) => error instanceof FlakyError,
+            ...timers,
+        }
+    );
+
+    t.is(result.err().unwrap().errors.length, 2);
+    t.true(result.err().unwrap().errors[1] instanceof FatalError);
+});
+
+test("retry stops once the elapsed time would exceed the limit", async (t) => {
+    const timers = fakeTimers();
+
+    const result = await Result.retry(() => Result.Err(new FlakyError()), {
+        maxAttempts: 10,
+        delayMs: 100,
+        maxElapsedMs: 500,
+        ...timers,
+    });
+
+    t.is(result.err().unwrap().errors.length, 3);
+    t.deepEqual(timers.delays, [100, 200]);
+});
+
+test("retryDelay applies the backoff strategy", (t) => {
+    const delays = (policy: RetryPolicy<Error>) =>
+        [1, 2, 3, 4].map((retry) => retryDelay(policy, retry));
+
+    t.deepEqual(delays({ backoff: "constant", delayMs: 5 }), [5, 5, 5, 5]);
+    t.deepEqual(delays({ backoff: "linear", delayMs: 5 }), [5, 10, 15, 20]);
+    t.deepEqual(delays({ delayMs: 5, factor: 3 }), [5, 15, 45, 135]);
+    t.deepEqual(delays({ delayMs: 5, maxDelayMs: 12 }), [5, 10, 12, 12]);
+});
+
+testProp(
+    "retryDelay jitter stays within bounds",
+    [
+        fc.double({ min: 0, max: 1, maxExcluded: true, noNaN: true }),
+        fc.double({ min: 0, max: 1, noNaN: true }),
+    ],
+    (t, random, jitter) => {
+        const delay = retryDelay(
+            { backoff: "constant", delayMs: 100, jitter, random: () => random },
+            1
+        );
+
+        t.true(delay <= 100);
+        t.true(delay >= 100 * (1 - jitter));
+        t.is(
+            retryDelay(
+                { backoff: "constant", jitter: true, random: () => random },
+                1
+            ),
+            100 * (1 - random)
+        );
+    }
+);
@@ -0,0 +1,164 @@
+import { AsyncResult } from "./structs/async-result";
+import { Result } from "./structs/result";
+import { NonEmptyArray } from "./structs/validated";
+
+/**
+ * A policy describing how `Result.retry` re-runs a failing operation.
+ */
+export interface RetryPolicy<E extends Error> {
+    /**
+     * The maximum number of attempts, including the first one. Defaults to `3`.
+     */
+    maxAttempts?: number;
+    /**
+     * How the delay grows between attempts. Defaults to `"exponential"`.
+     *
+     * - `"constant"` waits `delayMs` before every retry.
+     * - `"linear"` waits `delayMs * n` before the n-th retry.
+     * - `"exponential"` waits `delayMs * factor ** (n - 1)` before the n-th retry.
+     */
+    backoff?: "exponential" | "linear" | "constant";
+    /**
+     * The base delay in milliseconds. Defaults to `100`.
+     */
+    delayMs?: number;
+    /**
+     * The growth factor of exponential backoff. Defaults to `2`.
+     */
+    factor?: number;
+    /**
+     * The maximum delay in milliseconds. Defaults to `Infinity`.
+     */
+    maxDelayMs?: number;
+    /**
+     * The fraction of each delay that is randomized, between `0` and `1`.
+     * `true` is the same as `1` ("full jitter"). Defaults to `0`.
+     */
+    jitter?: boolean | number;
+    /**
+     * Stops retrying once the next attempt would start more than this many
+     * milliseconds after the first one. Defaults to `Infinity`.
+     */
+    maxElapsedMs?: number;
+    /**
+     * Decides whether an error is retryable. Defaults to retrying every error.
+     */
+    retryIf?: (error: E, attempt: number) => boolean;
+    /**
+     * Waits for a number of milliseconds. Defaults to a `setTimeout`-based sleep.
+     */
+    sleep?: (ms: number) => PromiseLike<void>;
+    /**
+     * Returns the current time in milliseconds. Defaults to `Date.now`.
+     */
+    now?: () => number;
+    /**
+     * Returns a random number between `0` and `1`, used for jitter. Defaults to `Math.random`.
+     */
+    random?: () => number;
+}
+
+/**
+ * The error returned by `Result.retry` once it gives up.
+ * It is an `AggregateError` whose `errors` contain the error of every attempt, in order.
+ */
+export class RetryError<E extends Error> extends AggregateError {
+    declare readonly errors: NonEmptyArray<E>;
+
+    constructor(errors: NonEmptyArray<E>, message?: string) {
+        super(
+            errors,
+            message ??
+                `Failed after ${errors.length} attempt${errors.length === 1 ? "" : "s"}`
+        );
+
+        this.name = "RetryError";
+    }
+}
+
+function defaultSleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Computes the delay before a retry.
+ * @param policy - The retry policy.
+ * @param retry - The number of the retry, starting at 1.
+ * @returns The delay in milliseconds.
+ */
+export function retryDelay<E extends Error>(
+    policy: RetryPolicy<E>,
+    retry: number
+): number {
+    const {
+        backoff = "exponential",
+        delayMs = 100,
+        factor = 2,
+        maxDelayMs = Infinity,
+        jitter = 0,
+        random = Math.random,
+    } = policy;
+
+    const delay = Math.min(
+        backoff === "constant"
+            ? delayMs
+            : backoff === "linear"
+              ? delayMs * retry
+              : delayMs * factor ** (retry - 1),
+        maxDelayMs
+    );
+    const fraction = jitter === true ? 1 : jitter === false ? 0 : jitter;
+
+    return delay * (1 - fraction * random());
+}
+
+/**
+ * Runs an operation until it succeeds or the retry policy gives up.
+ * @param fn - A function receiving the attempt number, starting at 1.
+ * @param policy - The retry policy.
+ * @returns An AsyncResult resolving to the first Ok, or to a `RetryError` with every attempt's error.
+ */
+export function retry<T, E extends Error>(
+    fn: (attempt: number) => PromiseLike<Result<T, E>> | Result<T, E>,
+    policy: RetryPolicy<E> = {}
+): AsyncResult<T, RetryError<E>> {
+    const {
+        maxAttempts = 3,
+        maxElapsedMs = Infinity,
+        retryIf = () => true,
+        sleep = defaultSleep,
+        now = Date.now,
+    } = policy;
+
+    return AsyncResult.fromPromise(
+        (async () => {
+            const start = now();
+            const errors: E[] = [];
+
+            for (let attempt = 1; ; attempt++) {
+                const result = await fn(attempt);
+
+                if (result.isOk()) {
+                    return Result.Ok(result.unwrap());
+                }
+
+                const error = result.err().unwrap() as E;
+                errors.push(error);
+
+                const delay = retryDelay(policy, attempt);
+
+                if (
+                    attempt >= maxAttempts ||
+                    !retryIf(error, attempt) ||
+                    now() - start + delay > maxElapsedMs
+                ) {
+                    return Result.Err(
+                        new RetryError(errors as NonEmptyArray<E>)
+                    );
+                }
+
+                await sleep(delay);
+            }
+        })()
+    );
+}
@@ -0,0 +1,129 @@
+import test from "ava";
+import { testProp, fc } from "@fast-check/ava";
+import { Option } from "./structs/option";
+import {
+    at,
+    find,
+    mapGet,
+    parseBigInt,
+    parseInteger,
+    parseJSON,
+    parseNumber,
+    parseURL,
+    safeDecodeURIComponent,
+    safeStructuredClone,
+    stringifyJSON,
+} from "./std";
+
+testProp("parseJSON and stringifyJSON", [fc.jsonValue()], (t, v) => {
+    const json = stringifyJSON(v).unwrap();
+
+    t.deepEqual(parseJSON(json).unwrap(), JSON.parse(json));
+});
+
+test("parseJSON", (t) => {
+    t.deepEqual(parseJSON<{ a: number }>('{"a":1}').unwrap(), { a: 1 });
+    t.true(parseJSON("{").err().unwrap() instanceof SyntaxError);
+});
+
+test("stringifyJSON", (t) => {
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+
+    t.true(stringifyJSON(cyclic).err().unwrap() instanceof TypeError);
+    t.true(stringifyJSON(BigInt(1)).err().unwrap() instanceof TypeError);
+    t.is(
+        stringifyJSON(undefined).err().unwrap().message,
+        "undefined is not serializable to JSON"
+    );
+    t.is(
+        stringifyJSON({ a: [1] }, undefined, 1).unwrap(),
+        '{\n "a": [\n  1\n ]\n}'
+    );
+});
+
+test("parseNumber", (t) => {
+    t.deepEqual(parseNumber("1.5"), Option.Some(1.5));
+    t.deepEqual(parseNumber(" 0x10 "), Option.Some(16));
+    t.deepEqual(parseNumber(""), Option.None());
+    t.deepEqual(parseNumber("  "), Option.None());
+    t.deepEqual(parseNumber("12px"), Option.None());
+});
+
+test("parseInteger", (t) => {
+    t.deepEqual(parseInteger("12px"), Option.Some(12));
+    t.deepEqual(parseInteger("ff", 16), Option.Some(255));
+    t.deepEqual(parseInteger("px"), Option.None());
+});
+
+test("parseBigInt", (t) => {
+    t.is(parseBigInt("0x2a").unwrap(), BigInt(42));
+    t.true(parseBigInt("1.5").err().unwrap() instanceof SyntaxError);
+});
+
+test("parseURL", (t) => {
+    t.is(
+        parseURL("/a?b=1", "https://example.com").unwrap().href,
+        "https://example.com/a?b=1"
+    );
+    t.true(parseURL("/a").err().unwrap() instanceof TypeError);
+});
+
+test("safeDecodeURIComponent", (t) => {
+    t.is(safeDecodeURIComponent("a%20b").unwrap(), "a b");
+    t.true(
+        safeDecodeURIComponent("%E0%A4%A").err().unwrap() instanceof URIError
+    );
+});
+
+test("safeStructuredClone", (t) => {
+    const value = { date: new Date(0), items: new Set([1]) };
+    const clone = safeStructuredClone(value).unwrap();
+
+    t.deepEqual(clone, value);
+    t.not(clone, value);
+
+    const error = safeStructuredClone({ fn: () => 1 })
+        .err()
+        .unwrap();
+
+    t.true(error instanceof DOMException);
+    t.is(error.name, "DataCloneError");
+});
+
+testProp(
+    "at",
+    [fc.array(fc.integer()), fc.integer({ min: -10, max: 10 })],
+    (t, array, i) => {
+        t.deepEqual(at(array, i), Option.ofNullable(array.at(i)));
+    }
+);
+
+test("find", (t) => {
+    const values: Array<string | number> = ["a", 1, 2];
+    const number: Option<number> = find(
+        values,
+        (v): v is number => typeof v === "number"
+    );
+
+    t.deepEqual(number, Option.Some(1));
+    t.deepEqual(
+        find(values, (v) => v === 3),
+        Option.None()
+    );
+    t.deepEqual(
+        find([undefined], () => true),
+        Option.Some(undefined)
+    );
+});
+
+test("mapGet", (t) => {
+    const map = new Map<string, number | undefined>([
+        ["a", 1],
+        ["b", undefined],
+    ]);
+
+    t.deepEqual(mapGet(map, "a"), Option.Some(1));
+    t.deepEqual(mapGet(map, "b"), Option.Some(undefined));
+    t.deepEqual(mapGet(map, "c"), Option.None());
+});
@@ -0,0 +1,160 @@
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+
+/**
+ * Parses a JSON string.
+ * @param text - The string to parse.
+ * @param reviver - A function transforming the parsed values, as accepted by `JSON.parse`.
+ * @returns Ok with the parsed value, or Err with the `SyntaxError` thrown for invalid JSON.
+ */
+export function parseJSON<T = unknown>(
+    text: string,
+    reviver?: (this: unknown, key: string, value: unknown) => unknown
+): Result<T, SyntaxError> {
+    return Result.from([SyntaxError], () => JSON.parse(text, reviver) as T);
+}
+
+/**
+ * Serializes a value to a JSON string.
+ * @param value - The value to serialize.
+ * @param replacer - A function transforming the serialized values, as accepted by `JSON.stringify`.
+ * @param space - The indentation, as accepted by `JSON.stringify`.
+ * @returns Ok with the JSON string, or Err with a `TypeError` if the value contains a cycle or a bigint, or is not serializable at all (such as `undefined` or a function).
+ */
+export function stringifyJSON(
+    value: unknown,
+    replacer?: (this: unknown, key: string, value: unknown) => unknown,
+    space?: string | number
+): Result<string, TypeError> {
+    return Result.from([TypeError], () => {
+        const json: string | undefined = JSON.stringify(value, replacer, space);
+
+        if (json === undefined) {
+            throw new TypeError(`${typeof value} is not serializable to JSON`);
+        }
+
+        return json;
+    });
+}
+
+/**
+ * Parses a string as a number. Unlike `Number`, blank strings are rejected
+ * instead of being parsed as `0`.
+ * @param text - The string to parse.
+ * @returns Some with the number, or None if the string is not a number.
+ */
+export function parseNumber(text: string): Option<number> {
+    const value = Number(text);
+
+    return text.trim() === "" || Number.isNaN(value)
+        ? Option.None()
+        : Option.Some(value);
+}
+
+/**
+ * Parses the integer at the start of a string, as `parseInt` does.
+ * @param text - The string to parse.
+ * @param radix - The base of the integer, between 2 and 36. Defaults to 10.
+ * @returns Some with the integer, or None if the string does not start with an integer.
+ */
+export function parseInteger(text: string, radix = 10): Option<number> {
+    const value = Number.parseInt(text, radix);
+
+    return Number.isNaN(value) ? Option.None() : Option.Some(value);
+}
+
+/**
+ * Parses a string as a bigint.
+ * @param text - The string to parse, such as `"42"` or `"0x2a"`.
+ * @returns Ok with the bigint, or Err with the `SyntaxError` thrown by `BigInt`.
+ */
+export function parseBigInt(text: string): Result<bigint, SyntaxError> {
+    return Result.from([SyntaxError], () => BigInt(text));
+}
+
+/**
+ * Parses a URL.
+ * @param url - The absolute or relative URL.
+ * @param base - The base URL, if the URL is relative.
+ * @returns Ok with the URL, or Err with the `TypeError` thrown by `new URL`.
+ */
+export function parseURL(
+    url: string,
+    base?: string | URL
+): Result<URL, TypeError> {
+    return Result.from([TypeError], () => new URL(url, base));
+}
+
+/**
+ * Decodes a URI component.
+ * @param component - The encoded URI component.
+ * @returns Ok with the decoded component, or Err with the `URIError` thrown for malformed escape sequences.
+ */
+export function safeDecodeURIComponent(
+    component: string
+): Result<string, URIError> {
+    return Result.from([URIError], () => decodeURIComponent(component));
+}
+
+/**
+ * Deeply clones a value with the structured clone algorithm.
+ * @param value - The value to clone.
+ * @param options - The objects to transfer, as accepted by `structuredClone`.
+ * @returns Ok with the clone, or Err with the `DataCloneError` `DOMException` thrown for values that cannot be cloned, such as functions.
+ */
+export function safeStructuredClone<T>(
+    value: T,
+    options?: StructuredSerializeOptions
+): Result<T, DOMException> {
+    return Result.from([DOMException], () => structuredClone(value, options));
+}
+
+/**
+ * Returns the element of an array at an index. Negative indices count back
+ * from the end of the array.
+ * @param array - The array.
+ * @param index - The index of the element.
+ * @returns Some with the element, or None if the index is out of bounds.
+ */
+export function at<T>(array: ArrayLike<T>, index: number): Option<T> {
+    const i = Math.trunc(index) || 0;
+    const position = i < 0 ? array.length + i : i;
+
+    return position >= 0 && position < array.length
+        ? Option.Some(array[position])
+        : Option.None();
+}
+
+/**
+ * Returns the first element of an array satisfying a predicate.
+ * @param array - The array.
+ * @param predicate - A function to test each element.
+ * @returns Some with the first matching element, or None if no element matches.
+ */
+export function find<T, U extends T>(
+    array: ReadonlyArray<T>,
+    predicate: (value: T, index: number) => value is U
+): Option<U>;
+export function find<T>(
+    array: ReadonlyArray<T>,
+    predicate: (value: T, index: number) => boolean
+): Option<T>;
+export function find<T>(
+    array: ReadonlyArray<T>,
+    predicate: (value: T, index: number) => boolean
+): Option<T> {
+    const index = array.findIndex((value, i) => predicate(value, i));
+
+    return index === -1 ? Option.None() : Option.Some(array[index]);
+}
+
+/**
+ * Returns the value of a key in a map. Keys mapped to `undefined` are returned as
+ * `Some(undefined)`, unlike with `Option.ofNullable(map.get(key))`.
+ * @param map - The map.
+ * @param key - The key.
+ * @returns Some with the value, or None if the map does not have the key.
+ */
+export function mapGet<K, V>(map: ReadonlyMap<K, V>, key: K): Option<V> {
+    return map.has(key) ? Option.Some(map.get(key) as V) : Option.None();
+}
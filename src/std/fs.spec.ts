@@ -0,0 +1,47 @@
+import test from "ava";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+    IsDirectoryError,
+    NotDirectoryError,
+    NotFoundError,
+    readFile,
+    stat,
+    writeFile,
+} from "./fs";
+
+test("file system", async (t) => {
+    const dir = await mkdtemp(join(tmpdir(), "teav-"));
+    const file = join(dir, "file.txt");
+
+    try {
+        t.true((await writeFile(file, "hello")).isOk());
+        t.is((await readFile(file, "utf8")).unwrap(), "hello");
+        t.deepEqual((await readFile(file)).unwrap(), Buffer.from("hello"));
+        t.true((await stat(file)).unwrap().isFile());
+
+        const missing = (await readFile(join(dir, "missing"))).err().unwrap();
+
+        t.true(missing instanceof NotFoundError);
+        t.is(missing._tag, "NotFoundError");
+        t.is(missing.code, "ENOENT");
+        t.is(missing.syscall, "open");
+        t.is(missing.path, join(dir, "missing"));
+        t.is((missing.cause as Error).message, missing.message);
+
+        t.true(
+            (await readFile(dir)).err().unwrap() instanceof IsDirectoryError
+        );
+        t.true(
+            (await stat(join(file, "child"))).err().unwrap() instanceof
+                NotDirectoryError
+        );
+    } finally {
+        await rm(dir, { recursive: true });
+    }
+});
+
+test("file system wrappers rethrow invalid arguments", async (t) => {
+    await t.throwsAsync(() => readFile(1.5 as any).then((result) => result));
+});
@@ -0,0 +1,172 @@
+import type { PathLike, Stats } from "node:fs";
+import * as fs from "node:fs/promises";
+import { TaggedError } from "../errors";
+import { fireFromCaught } from "../hooks";
+import { AsyncResult } from "../structs/async-result";
+import { Result } from "../structs/result";
+
+type SystemErrorFields = {
+    /** The error code, such as `"ENOENT"`. */
+    code: string;
+    /** The system call that failed, such as `"open"`. */
+    syscall?: string;
+    /** The path passed to the system call. */
+    path?: string;
+};
+
+/**
+ * The error returned when a file or directory does not exist (`ENOENT`).
+ */
+export class NotFoundError extends TaggedError(
+    "NotFoundError"
+)<SystemErrorFields> {}
+
+/**
+ * The error returned when access to a file or directory is denied (`EACCES` or `EPERM`).
+ */
+export class PermissionDeniedError extends TaggedError(
+    "PermissionDeniedError"
+)<SystemErrorFields> {}
+
+/**
+ * The error returned when a file or directory already exists (`EEXIST`).
+ */
+export class AlreadyExistsError extends TaggedError(
+    "AlreadyExistsError"
+)<SystemErrorFields> {}
+
+/**
+ * The error returned when a file operation is applied to a directory (`EISDIR`).
+ */
+export class IsDirectoryError extends TaggedError(
+    "IsDirectoryError"
+)<SystemErrorFields> {}
+
+/**
+ * The error returned when a path component is not a directory (`ENOTDIR`).
+ */
+export class NotDirectoryError extends TaggedError(
+    "NotDirectoryError"
+)<SystemErrorFields> {}
+
+/**
+ * The error returned for any other failed file system call.
+ */
+export class UnknownFileSystemError extends TaggedError(
+    "UnknownFileSystemError"
+)<SystemErrorFields> {}
+
+/**
+ * The errors returned by the file system wrappers. The original error is kept as the `cause`.
+ */
+export type FileSystemError =
+    | NotFoundError
+    | PermissionDeniedError
+    | AlreadyExistsError
+    | IsDirectoryError
+    | NotDirectoryError
+    | UnknownFileSystemError;
+
+const FILE_SYSTEM_ERRORS: Record<
+    string,
+    new (
+        fields: SystemErrorFields & { message: string; cause: unknown }
+    ) => FileSystemError
+> = {
+    ENOENT: NotFoundError,
+    EACCES: PermissionDeniedError,
+    EPERM: PermissionDeniedError,
+    EEXIST: AlreadyExistsError,
+    EISDIR: IsDirectoryError,
+    ENOTDIR: NotDirectoryError,
+};
+
+// Invalid arguments also throw errors with a `code`, but without a `syscall`.
+function isSystemError(error: unknown): error is NodeJS.ErrnoException & {
+    code: string;
+} {
+    return (
+        error instanceof Error &&
+        typeof (error as NodeJS.ErrnoException).code === "string" &&
+        typeof (error as NodeJS.ErrnoException).syscall === "string"
+    );
+}
+
+function fileSystem<T>(fn: () => Promise<T>): AsyncResult<T, FileSystemError> {
+    return AsyncResult.fromPromise(
+        fn().then(
+            (value) => Result.Ok(value),
+            (error: unknown) => {
+                const expected = isSystemError(error);
+
+                fireFromCaught(error, !expected, fileSystem);
+
+                if (!expected) {
+                    throw error;
+                }
+
+                const ErrorClass =
+                    FILE_SYSTEM_ERRORS[error.code] ?? UnknownFileSystemError;
+
+                return Result.Err(
+                    new ErrorClass({
+                        message: error.message,
+                        cause: error,
+                        code: error.code,
+                        syscall: error.syscall,
+                        path: error.path,
+                    })
+                );
+            }
+        )
+    );
+}
+
+/**
+ * Reads the contents of a file.
+ * @param path - The path of the file.
+ * @returns An AsyncResult resolving to the contents, or to a `FileSystemError`.
+ */
+export function readFile(path: PathLike): AsyncResult<Buffer, FileSystemError>;
+
+/**
+ * Reads the contents of a file as text.
+ * @param path - The path of the file.
+ * @param encoding - The encoding of the file, such as `"utf8"`.
+ * @returns An AsyncResult resolving to the text, or to a `FileSystemError`.
+ */
+export function readFile(
+    path: PathLike,
+    encoding: BufferEncoding
+): AsyncResult<string, FileSystemError>;
+
+export function readFile(
+    path: PathLike,
+    encoding?: BufferEncoding
+): AsyncResult<Buffer | string, FileSystemError> {
+    return fileSystem(() => fs.readFile(path, encoding));
+}
+
+/**
+ * Writes data to a file, replacing it if it already exists.
+ * @param path - The path of the file.
+ * @param data - The data to write. Strings are encoded as UTF-8 unless an encoding is given.
+ * @param encoding - The encoding of string data.
+ * @returns An AsyncResult resolving to `undefined`, or to a `FileSystemError`.
+ */
+export function writeFile(
+    path: PathLike,
+    data: string | Uint8Array,
+    encoding?: BufferEncoding
+): AsyncResult<void, FileSystemError> {
+    return fileSystem(() => fs.writeFile(path, data, encoding));
+}
+
+/**
+ * Returns information about a file or directory.
+ * @param path - The path of the file or directory.
+ * @returns An AsyncResult resolving to the `Stats`, or to a `FileSystemError`.
+ */
+export function stat(path: PathLike): AsyncResult<Stats, FileSystemError> {
+    return fileSystem(() => fs.stat(path));
+}
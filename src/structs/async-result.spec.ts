@@ -0,0 +1,105 @@
+import test from "ava";
+import { testProp, fc } from "@fast-check/ava";
+import { AsyncResult } from "./async-result";
+import { Result } from "./result";
+
+testProp("map", [fc.anything()], async (t, v) => {
+    const ok = AsyncResult.Ok(v);
+    const err = AsyncResult.Err(new Error());
+
+    const okMapResult = await ok.map((v) => [v]);
+    const errMapResult = await err.map((v) => [v]);
+    const okAsyncMapResult = await ok.map(async (v) => [v]);
+
+    t.is(okMapResult.isOk(), true);
+    t.is(errMapResult.isOk(), false);
+
+    t.is(okMapResult.unwrap()[0], v);
+    t.is(okAsyncMapResult.unwrap()[0], v);
+});
+
+testProp("mapErr", [fc.string()], async (t, message) => {
+    const ok = AsyncResult.Ok(message);
+    const err = AsyncResult.Err(new Error(message));
+
+    const okMapResult = await ok.mapErr((e) => new TypeError(e));
+    const errMapResult = await err.mapErr(
+        async (e) => new TypeError(e.message)
+    );
+
+    t.is(okMapResult.unwrap(), message);
+    t.true(errMapResult.err().unwrap() instanceof TypeError);
+    t.is(errMapResult.err().unwrap().message, message);
+});
+
+test("andThen chains sync, async and AsyncResult callbacks", async (t) => {
+    const result = await AsyncResult.Ok(1)
+        .andThen((v) => Result.Ok(v + 1))
+        .andThen(async (v) => Result.Ok(v * 10))
+        .andThen((v) => AsyncResult.Ok(`${v}`));
+
+    t.is(result.unwrap(), "20");
+});
+
+test("andThen short-circuits on Err", async (t) => {
+    const error = new Error("boom");
+    let called = false;
+
+    const result = await AsyncResult.Ok(1)
+        .andThen(() => Result.Err(error))
+        .andThen(async (v) => {
+            called = true;
+            return Result.Ok(v);
+        });
+
+    t.false(called);
+    t.is(result.err().unwrap(), error);
+});
+
+test("orElse recovers from Err", async (t) => {
+    const result = await AsyncResult.Err(new Error("boom")).orElse(
+        async (error) => Result.Ok(error.message)
+    );
+
+    t.is(result.unwrap(), "boom");
+});
+
+test("unwrap rejects with the Err value", async (t) => {
+    const error = new Error("boom");
+
+    const rejection = await t.throwsAsync(AsyncResult.Err(error).unwrap());
+
+    t.is(rejection, error);
+});
+
+test("unsafeFrom captures rejections", async (t) => {
+    const error = new Error("boom");
+
+    const result = await AsyncResult.unsafeFrom(() => Promise.reject(error));
+
+    t.is(result.err().unwrap(), error);
+});
+
+test("converts to and from Result and Promise", async (t) => {
+    const fromResult = await Result.Ok(3).toAsync();
+    const fromPromise = await AsyncResult.fromPromise(
+        Promise.resolve(Result.Ok(4))
+    );
+
+    t.is(fromResult.unwrap(), 3);
+    t.is(fromPromise.unwrap(), 4);
+    t.is(await AsyncResult.Ok(5).then((result) => result.unwrap()), 5);
+});
+
+test("flatten", async (t) => {
+    const result = await AsyncResult.Ok(Result.Ok(1)).flatten();
+
+    t.is(result.unwrap(), 1);
+});
+
+testProp("toPromise", [fc.anything()], async (t, v) => {
+    const error = new Error();
+
+    t.is(await AsyncResult.Ok(v).toPromise(), v);
+    await t.throwsAsync(AsyncResult.Err(error).toPromise(), { is: error });
+});
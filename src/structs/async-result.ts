@@ -0,0 +1,426 @@
+import { ContextError } from "../errors";
+import { Option } from "./option";
+import { ErrorClass, ErrorTag, Result, ResultYield } from "./result";
+
+type MaybePromise<T> = T | PromiseLike<T>;
+type OkType<R> = R extends Result<infer T, Error> ? T : never;
+type ErrType<R> = R extends Result<unknown, infer E> ? E : never;
+type CatchTagsHandlers<E, H> = {
+    [K in keyof H]: (
+        error: Extract<E, { readonly _tag: K }>
+    ) => MaybePromise<H[K]>;
+};
+
+/**
+ * The `AsyncResult` class wraps a `Promise<Result<T, E>>` and exposes the same
+ * combinators as `Result`, so that chains of fallible asynchronous operations
+ * can be written without awaiting every intermediate step.
+ *
+ * An `AsyncResult` is thenable, which means it can be awaited directly to get
+ * the underlying `Result`. Callbacks passed to `map`, `mapErr`, `andThen` and
+ * `orElse` may be either synchronous or asynchronous.
+ *
+ * Example:
+ * ```
+ * const user = await AsyncResult.unsafeFrom(() => fetchUserId(session))
+ *     .andThen((id) => loadUser(id))
+ *     .map((user) => user.profile)
+ *     .mapErr((error) => new ProfileError(error.message));
+ *
+ * if (user.isOk()) {
+ *   console.log("Profile:", user.unwrap());
+ * }
+ * ```
+ */
+export class AsyncResult<T, E extends Error> implements PromiseLike<
+    Result<T, E>
+> {
+    private readonly promise: Promise<Result<T, E>>;
+
+    protected constructor(promise: PromiseLike<Result<T, E>>) {
+        this.promise = Promise.resolve(promise);
+    }
+
+    /**
+     * Creates an AsyncResult instance representing a successful outcome.
+     * @param value - The success value.
+     * @returns An AsyncResult instance representing success.
+     */
+    static Ok<T>(value: T): AsyncResult<T, never> {
+        return new AsyncResult(Promise.resolve(Result.Ok(value)));
+    }
+
+    /**
+     * Creates an AsyncResult instance representing an error.
+     * @param error - The error object.
+     * @returns An AsyncResult instance representing the error.
+     */
+    static Err<E extends Error>(error: E): AsyncResult<never, E> {
+        return new AsyncResult(Promise.resolve(Result.Err(error)));
+    }
+
+    /**
+     * Creates an AsyncResult from an already settled Result.
+     * @param result - The Result to wrap.
+     * @returns An AsyncResult resolving to the given Result.
+     */
+    static fromResult<T, E extends Error>(
+        result: Result<T, E>
+    ): AsyncResult<T, E> {
+        return new AsyncResult(Promise.resolve(result));
+    }
+
+    /**
+     * Creates an AsyncResult from a promise that resolves to a Result.
+     * @param promise - A promise resolving to a Result.
+     * @returns An AsyncResult resolving to the same Result.
+     */
+    static fromPromise<T, E extends Error>(
+        promise: PromiseLike<Result<T, E>>
+    ): AsyncResult<T, E> {
+        return new AsyncResult(promise);
+    }
+
+    /**
+     * Creates an AsyncResult from an asynchronous function that may throw an error.
+     * @param fn - An asynchronous function that returns a promise.
+     * @returns An AsyncResult resolving to either Ok or Err.
+     */
+    static unsafeFrom<T = unknown, E extends Error = Error>(
+        fn: () => Promise<T>
+    ): AsyncResult<T, E> {
+        return new AsyncResult(Result.unsafeFromAsync<T, E>(fn));
+    }
+
+    /**
+     * Creates an AsyncResult from an asynchronous function that may throw expected errors.
+     * @param expectedErrors - An array of expected error constructors.
+     * @param fn - An asynchronous function that returns a promise.
+     * @returns An AsyncResult resolving to either Ok or Err.
+     * @throws Error (as a rejection) if an unexpected error occurs.
+     */
+    static from<
+        T,
+        E extends Error = never,
+        C extends ErrorClass[] = ErrorClass<E>[],
+    >(
+        expectedErrors: [...C],
+        fn: () => Promise<T>
+    ): AsyncResult<T, E | InstanceType<C[number]>> {
+        return new AsyncResult(Result.fromAsync(expectedErrors, fn));
+    }
+
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the underlying Result.
+     * This makes the AsyncResult awaitable.
+     * @param onfulfilled - Callback invoked with the settled Result.
+     * @param onrejected - Callback invoked if the underlying promise rejects.
+     * @returns A promise for the completion of whichever callback is executed.
+     */
+    then<TResult1 = Result<T, E>, TResult2 = never>(
+        onfulfilled?:
+            ((value: Result<T, E>) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+    ): Promise<TResult1 | TResult2> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    /**
+     * Checks if the Result is an Err.
+     * @returns A promise resolving to true if the Result is an Err, false otherwise.
+     */
+    async isErr(): Promise<boolean> {
+        return (await this.promise).isErr();
+    }
+
+    /**
+     * Checks if the Result is Ok.
+     * @returns A promise resolving to true if the Result is Ok, false otherwise.
+     */
+    async isOk(): Promise<boolean> {
+        return (await this.promise).isOk();
+    }
+
+    /**
+     * Checks if the Result is Ok and satisfies a specified predicate.
+     * @param predicate - A (possibly asynchronous) predicate to apply to the Ok value.
+     * @returns A promise resolving to true if the Result is Ok and the predicate returns true.
+     */
+    async isOkAnd(
+        predicate: (value: T) => MaybePromise<boolean>
+    ): Promise<boolean> {
+        const result = await this.promise;
+
+        return result.isOk() && (await predicate(result.unwrap()));
+    }
+
+    /**
+     * Transforms the Result's value using a provided function.
+     * @param fn - A (possibly asynchronous) function to apply to the Ok value.
+     * @returns A new AsyncResult instance with the transformed value.
+     */
+    map<U>(fn: (value: T) => MaybePromise<U>): AsyncResult<U, E> {
+        return new AsyncResult(
+            this.promise.then(async (result) =>
+                result.isOk()
+                    ? Result.Ok(await fn(result.unwrap()))
+                    : (result as any)
+            )
+        );
+    }
+
+    /**
+     * Transforms the Result's error using a provided function.
+     * @param fn - A (possibly asynchronous) function to apply to the Err value.
+     * @returns A new AsyncResult instance with the transformed error.
+     */
+    mapErr<U extends Error>(
+        fn: (error: E) => MaybePromise<U>
+    ): AsyncResult<T, U> {
+        return new AsyncResult(
+            this.promise.then(async (result) =>
+                result.isErr()
+                    ? Result.Err(await fn(result.err().unwrap()))
+                    : (result as any)
+            )
+        );
+    }
+
+    /**
+     * Wraps the Result's error in a `ContextError` describing what was being attempted.
+     * The original error is kept as the `cause` of the new error.
+     * @param message - A description of what was being attempted.
+     * @returns A new AsyncResult instance with the wrapped error.
+     */
+    context(message: string): AsyncResult<T, ContextError<E>> {
+        return this.withContext(() => message);
+    }
+
+    /**
+     * Wraps the Result's error in a `ContextError` describing what was being attempted.
+     * The message is only computed if the Result is Err.
+     * @param fn - A function returning a description of what was being attempted.
+     * @returns A new AsyncResult instance with the wrapped error.
+     */
+    withContext(fn: (error: E) => string): AsyncResult<T, ContextError<E>> {
+        return this.mapErr((error) => new ContextError(fn(error), error));
+    }
+
+    /**
+     * Transforms the Result's value using a function or returns a default value.
+     * @param other - The default value to return if the Result is Err.
+     * @param fn - A (possibly asynchronous) function to apply to the Ok value.
+     * @returns A promise resolving to the transformed value or the default value.
+     */
+    async mapOr<U>(other: U, fn: (value: T) => MaybePromise<U>): Promise<U> {
+        const result = await this.promise;
+
+        return result.isOk() ? fn(result.unwrap()) : other;
+    }
+
+    /**
+     * Transforms the Result's value using a function or executes a function to get a default value.
+     * @param other - A (possibly asynchronous) function that returns the default value.
+     * @param fn - A (possibly asynchronous) function to apply to the Ok value.
+     * @returns A promise resolving to the transformed value or the default value.
+     */
+    async mapOrElse<U>(
+        other: (error: E) => MaybePromise<U>,
+        fn: (value: T) => MaybePromise<U>
+    ): Promise<U> {
+        const result = await this.promise;
+
+        return result.isOk()
+            ? fn(result.unwrap())
+            : other(result.err().unwrap() as E);
+    }
+
+    /**
+     * Returns another Result if the original Result is Ok, otherwise returns the original Result.
+     * @param res - Another Result (or a promise of one) to return if the original Result is Ok.
+     * @returns A new AsyncResult resolving to the provided Result or the original Err.
+     */
+    and<U>(res: MaybePromise<Result<U, E>>): AsyncResult<U, E> {
+        return new AsyncResult(
+            this.promise.then((result) =>
+                result.isOk() ? res : (result as any)
+            )
+        );
+    }
+
+    /**
+     * Transforms the Result's value with a function that returns a Result.
+     * The callback may return a Result, a promise of a Result or another AsyncResult.
+     * @param fn - A function that takes the Ok value and returns a Result.
+     * @returns A new AsyncResult resolving to the Result returned by fn, or the original Err.
+     */
+    andThen<U, F extends Error = E>(
+        fn: (value: T) => MaybePromise<Result<U, F>>
+    ): AsyncResult<U, E | F> {
+        return new AsyncResult<U, E | F>(
+            this.promise.then((result) =>
+                result.isOk() ? fn(result.unwrap()) : (result as any)
+            )
+        );
+    }
+
+    /**
+     * Alias for andThen.
+     * @see andThen
+     */
+    flatMap<U, F extends Error = E>(
+        fn: (value: T) => MaybePromise<Result<U, F>>
+    ): AsyncResult<U, E | F> {
+        return this.andThen(fn);
+    }
+
+    /**
+     * Returns the Result if it's Ok, otherwise returns another Result.
+     * @param res - Another Result (or a promise of one) to return if the original Result is Err.
+     * @returns A new AsyncResult resolving to the original Ok or the provided Result.
+     */
+    or(res: MaybePromise<Result<T, E>>): AsyncResult<T, E> {
+        return new AsyncResult(
+            this.promise.then((result) => (result.isOk() ? result : res))
+        );
+    }
+
+    /**
+     * Returns the Result if it's Ok, otherwise returns the result of a function.
+     * The callback receives the error and may return a Result, a promise of a Result or
+     * another AsyncResult.
+     * @param fn - A function that returns a Result.
+     * @returns A new AsyncResult resolving to the original Ok or the Result returned by fn.
+     */
+    orElse<U = T, F extends Error = E>(
+        fn: (error: E) => MaybePromise<Result<U, F>>
+    ): AsyncResult<T | U, F> {
+        return new AsyncResult<T | U, F>(
+            this.promise.then((result) =>
+                result.isOk() ? (result as any) : fn(result.err().unwrap() as E)
+            )
+        );
+    }
+
+    /**
+     * Recovers from tagged errors with a given tag. The handled errors are removed
+     * from the error type, and other errors are left untouched.
+     * @param tag - The `_tag` of the errors to handle.
+     * @param handler - A (possibly asynchronous) function that takes the matching error and returns a Result.
+     * @returns A new AsyncResult resolving to the Result returned by handler, or the original Result.
+     * @see Result.catchTag
+     */
+    catchTag<K extends ErrorTag<E>, U, F extends Error = never>(
+        tag: K,
+        handler: (
+            error: Extract<E, { readonly _tag: K }>
+        ) => MaybePromise<Result<U, F>>
+    ): AsyncResult<T | U, Exclude<E, { readonly _tag: K }> | F> {
+        return this.catchTags({ [tag]: handler } as any) as any;
+    }
+
+    /**
+     * Recovers from tagged errors using one handler per tag. The handled errors are
+     * removed from the error type, and other errors are left untouched.
+     * @param handlers - An object mapping tags to (possibly asynchronous) functions that return a Result.
+     * @returns A new AsyncResult resolving to the Result returned by the matching handler, or the original Result.
+     * @see Result.catchTags
+     */
+    catchTags<H extends Record<string, Result<unknown, Error>>>(
+        handlers: CatchTagsHandlers<E, H>
+    ): AsyncResult<
+        T | OkType<H[keyof H]>,
+        Exclude<E, { readonly _tag: keyof H }> | ErrType<H[keyof H]>
+    > {
+        return new AsyncResult(
+            this.promise.then(
+                (result) => result.catchTags(handlers as any) as any
+            )
+        );
+    }
+
+    /**
+     * Unwraps the Result, returning the contained value, or rejects if the Result is Err.
+     * @returns A promise resolving to the Ok value.
+     * @throws The Err value (as a rejection) if the Result is Err.
+     */
+    async unwrap(): Promise<T> {
+        return (await this.promise).unwrap();
+    }
+
+    /**
+     * Unwraps the Result, returning the contained value, or returns a default value if the Result is Err.
+     * @param other - The default value to return if the Result is Err.
+     * @returns A promise resolving to the Ok value or other.
+     */
+    async unwrapOr(other: T): Promise<T> {
+        return (await this.promise).unwrapOr(other);
+    }
+
+    /**
+     * Unwraps the Result, returning the contained value, or executes a function to get a default value if the Result is Err.
+     * @param fn - A (possibly asynchronous) function that returns the default value.
+     * @returns A promise resolving to the Ok value or the value returned by fn.
+     */
+    async unwrapOrElse(fn: () => MaybePromise<T>): Promise<T> {
+        const result = await this.promise;
+
+        return result.isOk() ? result.unwrap() : fn();
+    }
+
+    /**
+     * Flattens a nested Result.
+     * @returns A new AsyncResult resolving to the inner Result if the original Result is a nested Result.
+     */
+    flatten(): AsyncResult<
+        T extends Result<infer U, Error> ? U : T,
+        T extends Result<unknown, infer F> ? E | F : E
+    > {
+        return new AsyncResult(
+            this.promise.then((result) => result.flatten() as any)
+        );
+    }
+
+    /**
+     * Converts the Result to an Option, containing the Ok value if present.
+     * @returns A promise resolving to an Option containing the Ok value, or None if the Result is Err.
+     */
+    async ok(): Promise<Option<T>> {
+        return (await this.promise).ok();
+    }
+
+    /**
+     * Converts the Result to an Option, containing the Err value if present.
+     * @returns A promise resolving to an Option containing the Err value, or None if the Result is Ok.
+     */
+    async err(): Promise<Option<E>> {
+        return (await this.promise).err();
+    }
+
+    /**
+     * Converts the AsyncResult to a promise of its Ok value.
+     * @returns A promise that resolves to the Ok value, or rejects with the Err value.
+     */
+    toPromise(): Promise<T> {
+        return this.promise.then((result) => result.toPromise());
+    }
+
+    /**
+     * Allows the AsyncResult to be unwrapped with `yield*` inside `Result.genAsync`,
+     * and iterated over with `for await…of` like the settled Result.
+     */
+    [Symbol.asyncIterator](): AsyncIterator<ResultYield<T, E>, T, unknown> {
+        let settled:
+            Promise<Iterator<ResultYield<T, E>, T, unknown>> | undefined;
+
+        return {
+            next: (...args: [] | [unknown]) => {
+                settled ??= this.promise.then((result) =>
+                    result[Symbol.iterator]()
+                );
+
+                return settled.then((iterator) => iterator.next(...args));
+            },
+        };
+    }
+}
@@ -0,0 +1,216 @@
+import test from "ava";
+import { testProp, fc } from "@fast-check/ava";
+import { Equal } from "../test-types";
+import { Either } from "./either";
+import { Result } from "./result";
+
+const parseAmount = (input: string): Either<string, number> =>
+    Number.isNaN(Number(input))
+        ? Either.Left(`invalid amount: ${input}`)
+        : Either.Right(Number(input));
+
+testProp("gen", [fc.integer(), fc.integer()], (t, a, b) => {
+    const total = Either.gen(function* () {
+        const x = yield* parseAmount(`${a}`);
+        const y = yield* parseAmount(`${b}`);
+
+        return x + y;
+    });
+
+    t.is(total.unwrapRight(), a + b);
+});
+
+test("gen short-circuits on the first left", (t) => {
+    const total: Either<string, number> = Either.gen(function* () {
+        const x = yield* parseAmount("one");
+        const y = yield* parseAmount("2");
+
+        return x + y;
+    });
+
+    t.is(total.unwrapLeft(), "invalid amount: one");
+});
+
+test("gen widens the left of unknown and any payloads", (t) => {
+    const read = (input: string): Either<string, unknown> => parseAmount(input);
+    const readAny = (input: string): Either<string, any> => parseAmount(input);
+
+    const total = Either.gen(function* () {
+        yield* read("1");
+        yield* readAny("2");
+
+        return 3;
+    });
+    const inferred: Equal<typeof total, Either<unknown, number>> = true;
+
+    t.true(inferred);
+    t.is(total.unwrapRight(), 3);
+});
+
+test("genAsync", async (t) => {
+    const total = await Either.genAsync(async function* () {
+        const x = yield* await Promise.resolve(parseAmount("1"));
+        const y = yield* parseAmount("2");
+
+        return x + y;
+    });
+
+    t.is(total.unwrapRight(), 3);
+});
+
+testProp(
+    "partition",
+    [fc.array(fc.oneof(fc.integer(), fc.string()))],
+    (t, values) => {
+        const [lefts, rights] = Either.partition(
+            values.map((value) =>
+                typeof value === "string"
+                    ? Either.Left(value)
+                    : Either.Right(value)
+            )
+        );
+
+        t.deepEqual(
+            lefts,
+            values.filter((value) => typeof value === "string")
+        );
+        t.deepEqual(
+            rights,
+            values.filter((value) => typeof value === "number")
+        );
+    }
+);
+
+test("fromNullable", (t) => {
+    t.is(Either.fromNullable(0, "missing").unwrapRight(), 0);
+    t.is(Either.fromNullable(null, "missing").unwrapLeft(), "missing");
+    t.is(Either.fromNullable(undefined, "missing").unwrapLeft(), "missing");
+});
+
+testProp("fromPredicate", [fc.integer()], (t, value) => {
+    const even = Either.fromPredicate(
+        value,
+        (n) => n % 2 === 0,
+        (n) => `${n} is odd`
+    );
+
+    t.deepEqual(
+        even.toJSON(),
+        value % 2 === 0
+            ? { $teav: "Right", value }
+            : { $teav: "Left", value: `${value} is odd` }
+    );
+});
+
+test("try", (t) => {
+    const error = new Error("boom");
+
+    t.is(Either.try(() => 1).unwrapRight(), 1);
+    t.is(
+        Either.try(() => {
+            throw error;
+        }).unwrapLeft(),
+        error
+    );
+    t.is(
+        Either.try(
+            () => JSON.parse("{"),
+            () => "invalid JSON"
+        ).unwrapLeft(),
+        "invalid JSON"
+    );
+});
+
+testProp("map is right-biased", [fc.integer()], (t, value) => {
+    const double = (n: number) => n * 2;
+
+    t.is(Either.Right(value).map(double).unwrapRight(), value * 2);
+    t.is(Either.Left(value).map(double).unwrapLeft(), value);
+});
+
+testProp("andThen", [fc.string()], (t, input) => {
+    const amount = Either.Right<string>(input).andThen(parseAmount);
+
+    t.deepEqual(amount.toJSON(), parseAmount(input).toJSON());
+    t.is(Either.Left("first").andThen(parseAmount).unwrapLeft(), "first");
+});
+
+test("andThenLeft and orElse", (t) => {
+    const retry = (reason: string) =>
+        reason === "busy" ? Either.Right(0) : Either.Left(reason.length);
+
+    t.is(Either.Left("busy").andThenLeft(retry).unwrapRight(), 0);
+    t.is(Either.Left("gone").andThenLeft(retry).unwrapLeft(), 4);
+    t.is(Either.Right(1).andThenLeft(retry).unwrapRight(), 1);
+    t.is(Either.Left("busy").orElse(retry).unwrapRight(), 0);
+    t.is(Either.Right(1).orElse(retry).unwrapRight(), 1);
+    t.is(
+        Either.Right(1)
+            .orElseRight(() => Either.Left("none"))
+            .unwrapLeft(),
+        "none"
+    );
+});
+
+test("flatten", (t) => {
+    const nested: Either<string, Either<number, boolean>> = Either.Right(
+        Either.Left(1)
+    );
+    const flat: Either<string | number, boolean> = nested.flatten();
+
+    const left: Either<string, Either<number, boolean>> = Either.Left("x");
+
+    t.is(flat.unwrapLeft(), 1);
+    t.is(left.flatten().unwrapLeft(), "x");
+    t.is(Either.Left(Either.Right(2)).flattenLeft().unwrapRight(), 2);
+});
+
+test("zip and zipWith", (t) => {
+    t.deepEqual(Either.Right(1).zip(Either.Right("a")).unwrapRight(), [1, "a"]);
+    t.is(Either.Left("x").zip(Either.Left("y")).unwrapLeft(), "x");
+    t.is(Either.Right(1).zip(Either.Left("y")).unwrapLeft(), "y");
+    t.is(
+        Either.Right(2)
+            .zipWith(Either.Right(3), (a, b) => a * b)
+            .unwrapRight(),
+        6
+    );
+    t.deepEqual(Either.Left(1).zipLeft(Either.Left("a")).unwrapLeft(), [
+        1,
+        "a",
+    ]);
+    t.is(Either.Left(1).zipLeft(Either.Right(2)).unwrapRight(), 2);
+});
+
+testProp("fold", [fc.oneof(fc.integer(), fc.string())], (t, value) => {
+    const either =
+        typeof value === "string" ? Either.Left(value) : Either.Right(value);
+
+    t.is(
+        either.fold(
+            (left) => `left ${left}`,
+            (right) => `right ${right}`
+        ),
+        typeof value === "string" ? `left ${value}` : `right ${value}`
+    );
+});
+
+test("fromResult and toResult", (t) => {
+    const error = new Error("invalid");
+
+    t.is(Either.fromResult(Result.Ok(1)).unwrapRight(), 1);
+    t.is(Either.fromResult(Result.Err(error)).unwrapLeft(), error);
+    t.is(
+        Either.Right(1)
+            .toResult(() => error)
+            .unwrap(),
+        1
+    );
+    t.is(
+        parseAmount("x")
+            .toResult((message) => new Error(message))
+            .err()
+            .unwrap().message,
+        "invalid amount: x"
+    );
+});
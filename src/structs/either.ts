@@ -1,5 +1,37 @@
-import { SYM_LEFT, SYM_RIGHT } from "../constants";
+import { SYM_INSPECT, SYM_LEFT, SYM_RIGHT } from "../constants";
+import {
+    EitherJSON,
+    FromJSONOptions,
+    MalformedJSONError,
+    revive,
+} from "../json";
+import { carryOrigin, panicError, recordOrigin } from "../debug";
+import { deepEqual, hashValue } from "../equality";
+import { fireUnwrapPanic } from "../hooks";
+import {
+    formatVariant,
+    InspectFunction,
+    InspectOptions,
+    inspectVariant,
+} from "../inspect";
+import { variantIterator, VariantIterator } from "../iter";
 import { Option } from "./option";
+import { Result } from "./result";
+
+/**
+ * The yield type of the iterator of an `Either`. A left never produces a value when
+ * iterated, but is part of the yield type so that `Either.gen` can infer the union
+ * of every left value yielded with `yield*`.
+ */
+export type EitherYield<L, R> = R | (L extends unknown ? Left<L> : never);
+
+// An `unknown` or `any` right value absorbs the lefts in the yield type of a generator,
+// so any left value is possible then.
+type GenLeft<Y> = unknown extends Y
+    ? unknown
+    : Y extends Left<infer L>
+      ? L
+      : never;
 
 /**
  * The `Either` class is a functional programming construct used in TypeScript
@@ -60,7 +92,11 @@ export class Either<L, R> {
      * @returns An instance of `Left`.
      */
     static Left<L>(value: L): Left<L> {
-        return new Left(value);
+        const left = new Left(value);
+
+        recordOrigin(left, "Left", Either.Left);
+
+        return left;
     }
 
     /**
@@ -72,6 +108,311 @@ export class Either<L, R> {
         return new Right(value);
     }
 
+    /**
+     * Creates an `Either` from a value that may be `null` or `undefined`.
+     * @param value - The value to wrap.
+     * @param leftValue - The left value to use if the value is `null` or `undefined`.
+     * @returns A right containing the value, or a left containing leftValue.
+     */
+    static fromNullable<L, R>(
+        value: R | null | undefined,
+        leftValue: L
+    ): Either<L, R> {
+        return value === null || value === undefined
+            ? this.Left(leftValue)
+            : this.Right(value);
+    }
+
+    /**
+     * Creates an `Either` from a value and a predicate.
+     * @param value - The value to test.
+     * @param predicate - A predicate function to test the value.
+     * @param onFalse - A function computing the left value if the predicate returns `false`.
+     * @returns A right containing the value if the predicate returns `true`, otherwise a left.
+     */
+    static fromPredicate<L, R, S extends R>(
+        value: R,
+        predicate: (value: R) => value is S,
+        onFalse: (value: R) => L
+    ): Either<L, S>;
+    static fromPredicate<L, R>(
+        value: R,
+        predicate: (value: R) => boolean,
+        onFalse: (value: R) => L
+    ): Either<L, R>;
+    static fromPredicate<L, R>(
+        value: R,
+        predicate: (value: R) => boolean,
+        onFalse: (value: R) => L
+    ): Either<L, R> {
+        return predicate(value) ? this.Right(value) : this.Left(onFalse(value));
+    }
+
+    /**
+     * Runs a function, catching anything it throws as a left value.
+     * @param fn - The function to run.
+     * @param onThrow - A function mapping the thrown value to a left value. Defaults to keeping it as is.
+     * @returns A right containing the returned value, or a left containing the thrown value.
+     */
+    static try<R>(fn: () => R): Either<unknown, R>;
+    static try<R, L>(
+        fn: () => R,
+        onThrow: (thrown: unknown) => L
+    ): Either<L, R>;
+    static try<R>(
+        fn: () => R,
+        onThrow: (thrown: unknown) => unknown = (thrown) => thrown
+    ): Either<unknown, R> {
+        try {
+            return this.Right(fn());
+        } catch (thrown) {
+            return this.Left(onThrow(thrown));
+        }
+    }
+
+    /**
+     * Creates an `Either` from a `Result`.
+     * @param result - The Result to convert.
+     * @returns A right containing the Ok value, or a left containing the Err value.
+     */
+    static fromResult<T, E extends Error>(result: Result<T, E>): Either<E, T> {
+        return result.isOk()
+            ? this.Right(result.unwrap())
+            : this.Left(result.err().unwrap() as E);
+    }
+
+    /**
+     * Runs a generator function in which `yield*` unwraps right values, short-circuiting on the first left value.
+     *
+     * Example:
+     * ```
+     * const total = Either.gen(function* () {
+     *   const a = yield* parseAmount(x);
+     *   const b = yield* parseAmount(y);
+     *   return a + b;
+     * });
+     * ```
+     * @param fn - A generator function that yields `Either` instances and returns the final value.
+     * @returns A right containing the returned value, or the first left that was yielded.
+     */
+    static gen<R, Y>(
+        fn: () => Generator<Y, R, unknown>
+    ): Either<GenLeft<Y>, R> {
+        const iterator = fn();
+        const step = iterator.next();
+
+        if (!step.done) {
+            iterator.return(undefined as R);
+
+            return step.value as any;
+        }
+
+        return this.Right(step.value);
+    }
+
+    /**
+     * Asynchronous version of `gen`. Inside the async generator, `yield*` unwraps right values
+     * of `Either` instances and awaited promises of them, short-circuiting on the first left value.
+     * @param fn - An async generator function that yields `Either` instances and returns the final value.
+     * @returns A promise resolving to a right containing the returned value, or the first left that was yielded.
+     */
+    static async genAsync<R, Y>(
+        fn: () => AsyncGenerator<Y, R, unknown>
+    ): Promise<Either<GenLeft<Y>, R>> {
+        const iterator = fn();
+        const step = await iterator.next();
+
+        if (!step.done) {
+            await iterator.return(undefined as R);
+
+            return step.value as any;
+        }
+
+        return this.Right(step.value);
+    }
+
+    /**
+     * Splits an iterable of `Either` instances into the left values and the right values.
+     * @param eithers - An iterable of `Either` instances.
+     * @returns A tuple containing every left value and every right value, in order.
+     */
+    static partition<L, R>(eithers: Iterable<Either<L, R>>): [L[], R[]] {
+        const lefts: L[] = [];
+        const rights: R[] = [];
+
+        for (const either of eithers) {
+            if (either.isLeft()) {
+                lefts.push(either.unwrapLeft());
+            } else {
+                rights.push(either.unwrapRight());
+            }
+        }
+
+        return [lefts, rights];
+    }
+
+    /**
+     * Rebuilds an `Either` from its serialized form, as produced by `toJSON`.
+     * Nested Results, Options, Eithers and errors are rebuilt as well.
+     * The contained value types are not checked.
+     * @param json - A parsed JSON value.
+     * @param options - Options for rebuilding errors.
+     * @returns Ok with the rebuilt `Either`, or Err if the value is not a serialized `Either`.
+     */
+    static fromJSON<L = unknown, R = unknown>(
+        json: unknown,
+        options: FromJSONOptions = {}
+    ): Result<Either<L, R>, MalformedJSONError> {
+        return revive(json, "$", options).andThen((value) =>
+            Either.isEither(value)
+                ? Result.Ok(value as Either<L, R>)
+                : Result.Err(
+                      new MalformedJSONError(
+                          "Expected a serialized Either",
+                          "$"
+                      )
+                  )
+        );
+    }
+
+    /**
+     * Checks if a value is an `Either`. Unlike `instanceof`, this also recognizes instances
+     * created by another copy of teav or in another realm.
+     * @param value - The value to check.
+     * @returns `true` if the value is an `Either`, otherwise `false`.
+     */
+    static isEither(value: unknown): value is Either<unknown, unknown> {
+        return (
+            typeof value === "object" &&
+            value !== null &&
+            (Reflect.has(value, SYM_LEFT) || Reflect.has(value, SYM_RIGHT))
+        );
+    }
+
+    /**
+     * Transforms the right value with a function that returns an `Either`.
+     * @param fn - A function that takes the right value and returns an `Either`.
+     * @returns The result of applying fn to the right value if the instance is right, otherwise the original left.
+     */
+    andThen<L2, T>(fn: (value: R) => Either<L2, T>): Either<L | L2, T> {
+        return this.isRight() ? fn(this.unwrapRight()) : (this as any);
+    }
+
+    /**
+     * Transforms the left value with a function that returns an `Either`.
+     * @param fn - A function that takes the left value and returns an `Either`.
+     * @returns The result of applying fn to the left value if the instance is left, otherwise the original right.
+     */
+    andThenLeft<T, R2>(fn: (value: L) => Either<T, R2>): Either<T, R | R2> {
+        return this.isLeft() ? fn(this.unwrapLeft()) : (this as any);
+    }
+
+    /**
+     * Alias for andThen.
+     * @see andThen
+     */
+    flatMap<L2, T>(fn: (value: R) => Either<L2, T>): Either<L | L2, T> {
+        return this.andThen(fn);
+    }
+
+    /**
+     * Alias for andThenLeft.
+     * @see andThenLeft
+     */
+    flatMapLeft<T, R2>(fn: (value: L) => Either<T, R2>): Either<T, R | R2> {
+        return this.andThenLeft(fn);
+    }
+
+    /**
+     * Returns the `Either` if it is right, otherwise returns the result of a function.
+     * @param fn - A function that takes the left value and returns an `Either`.
+     * @returns The original right, otherwise the `Either` returned by fn.
+     */
+    orElse<L2, R2>(fn: (value: L) => Either<L2, R2>): Either<L2, R | R2> {
+        return this.isRight() ? (this as any) : fn(this.unwrapLeft());
+    }
+
+    /**
+     * Returns the `Either` if it is left, otherwise returns the result of a function.
+     * @param fn - A function that takes the right value and returns an `Either`.
+     * @returns The original left, otherwise the `Either` returned by fn.
+     */
+    orElseRight<L2, R2>(fn: (value: R) => Either<L2, R2>): Either<L | L2, R2> {
+        return this.isLeft() ? (this as any) : fn(this.unwrapRight());
+    }
+
+    /**
+     * Flattens a right value that is itself an `Either`.
+     * @returns The inner `Either` if the right value is an `Either`, otherwise the original `Either`.
+     */
+    flatten(): R extends Either<infer L2, infer R2>
+        ? Either<L | L2, R2>
+        : Either<L, R> {
+        if (this.isRight() && Either.isEither(this.unwrapRight())) {
+            return this.unwrapRight() as any;
+        }
+
+        return this as any;
+    }
+
+    /**
+     * Flattens a left value that is itself an `Either`.
+     * @returns The inner `Either` if the left value is an `Either`, otherwise the original `Either`.
+     */
+    flattenLeft(): L extends Either<infer L2, infer R2>
+        ? Either<L2, R | R2>
+        : Either<L, R> {
+        if (this.isLeft() && Either.isEither(this.unwrapLeft())) {
+            return this.unwrapLeft() as any;
+        }
+
+        return this as any;
+    }
+
+    /**
+     * Combines two `Either` instances into one containing both right values as a tuple.
+     * @param other - Another `Either`.
+     * @returns A right containing both right values, otherwise the first left.
+     */
+    zip<L2, R2>(other: Either<L2, R2>): Either<L | L2, [R, R2]> {
+        return this.zipWith(other, (a, b) => [a, b]);
+    }
+
+    /**
+     * Combines the right values of two `Either` instances using a function.
+     * @param other - Another `Either`.
+     * @param fn - A function combining both right values.
+     * @returns A right containing the combined value, otherwise the first left.
+     */
+    zipWith<L2, R2, T>(
+        other: Either<L2, R2>,
+        fn: (a: R, b: R2) => T
+    ): Either<L | L2, T> {
+        return this.andThen((a) => other.map((b) => fn(a, b)));
+    }
+
+    /**
+     * Combines two `Either` instances into one containing both left values as a tuple.
+     * @param other - Another `Either`.
+     * @returns A left containing both left values, otherwise the first right.
+     */
+    zipLeft<L2, R2>(other: Either<L2, R2>): Either<[L, L2], R | R2> {
+        return this.zipLeftWith(other, (a, b) => [a, b]);
+    }
+
+    /**
+     * Combines the left values of two `Either` instances using a function.
+     * @param other - Another `Either`.
+     * @param fn - A function combining both left values.
+     * @returns A left containing the combined value, otherwise the first right.
+     */
+    zipLeftWith<L2, R2, T>(
+        other: Either<L2, R2>,
+        fn: (a: L, b: L2) => T
+    ): Either<T, R | R2> {
+        return this.andThenLeft((a) => other.mapLeft((b) => fn(a, b)));
+    }
+
     /**
      * Applies a function to the contained value based on whether it is left or right.
      * @param onLeft - Function to apply if the value is left.
@@ -84,6 +425,14 @@ export class Either<L, R> {
             : onRight(this.unwrapRight());
     }
 
+    /**
+     * Alias for either.
+     * @see either
+     */
+    fold<T>(onLeft: (value: L) => T, onRight: (value: R) => T): T {
+        return this.either(onLeft, onRight);
+    }
+
     /**
      * Similar to `either`, but provides an additional context parameter to the applied functions.
      * @param ctx - Additional context to pass to the applied functions.
@@ -112,7 +461,11 @@ export class Either<L, R> {
             return this["value"];
         }
 
-        throw new Error(message);
+        const error = panicError(message, this);
+
+        fireUnwrapPanic("Right", (this as any).value, error, this.expectLeft);
+
+        throw error;
     }
 
     /**
@@ -126,7 +479,11 @@ export class Either<L, R> {
             return this["value"];
         }
 
-        throw new Error(message);
+        const error = panicError(message, this);
+
+        fireUnwrapPanic("Left", (this as any).value, error, this.expectRight);
+
+        throw error;
     }
 
     /**
@@ -200,14 +557,12 @@ export class Either<L, R> {
     }
 
     /**
-     * Maps the contained value to another type.
-     * @param fn - A function to transform the contained value.
-     * @returns A new `Either` instance with the transformed value.
+     * Transforms the right value while keeping the left value as is.
+     * Alias for mapRight.
+     * @see mapRight
      */
-    map<T>(fn: (value: L | R) => T): Either<T, T> {
-        return this.isLeft()
-            ? Either.Left(fn(this.unwrapLeft()))
-            : Either.Right(fn(this.unwrapRight()));
+    map<T>(fn: (value: R) => T): Either<L, T> {
+        return this.mapRight(fn);
     }
 
     /**
@@ -221,7 +576,7 @@ export class Either<L, R> {
         onRight: (value: R) => U
     ): Either<T, U> {
         return this.isLeft()
-            ? Either.Left(onLeft(this.unwrapLeft()))
+            ? carryOrigin(this, Either.Left(onLeft(this.unwrapLeft())))
             : Either.Right(onRight(this.unwrapRight()));
     }
 
@@ -238,7 +593,7 @@ export class Either<L, R> {
         onRight: (value: R, ctx: Ctx) => U
     ): Either<T, U> {
         return this.isLeft()
-            ? Either.Left(onLeft(this.unwrapLeft(), ctx))
+            ? carryOrigin(this, Either.Left(onLeft(this.unwrapLeft(), ctx)))
             : Either.Right(onRight(this.unwrapRight(), ctx));
     }
 
@@ -249,7 +604,7 @@ export class Either<L, R> {
      */
     mapLeft<T>(fn: (value: L) => T): Either<T, R> {
         return this.isLeft()
-            ? Either.Left(fn(this.unwrapLeft()))
+            ? carryOrigin(this, Either.Left(fn(this.unwrapLeft())))
             : Either.Right(this.unwrapRight());
     }
 
@@ -261,7 +616,7 @@ export class Either<L, R> {
      */
     mapLeftWith<Ctx, T>(ctx: Ctx, fn: (value: L, ctx: Ctx) => T): Either<T, R> {
         return this.isLeft()
-            ? Either.Left(fn(this.unwrapLeft(), ctx))
+            ? carryOrigin(this, Either.Left(fn(this.unwrapLeft(), ctx)))
             : Either.Right(this.unwrapRight());
     }
 
@@ -271,9 +626,7 @@ export class Either<L, R> {
      * @returns A new `Either` instance with the transformed right value.
      */
     mapRight<T>(fn: (value: R) => T): Either<L, T> {
-        return this.isLeft()
-            ? Either.Left(this.unwrapLeft())
-            : Either.Right(fn(this.unwrapRight()));
+        return this.isLeft() ? this : Either.Right(fn(this.unwrapRight()));
     }
 
     /**
@@ -286,9 +639,19 @@ export class Either<L, R> {
         ctx: Ctx,
         fn: (value: R, ctx: Ctx) => T
     ): Either<L, T> {
+        return this.isLeft() ? this : Either.Right(fn(this.unwrapRight(), ctx));
+    }
+
+    /**
+     * Applies one of two handlers depending on whether the value is left or right.
+     * Both handlers must be provided.
+     * @param handlers - An object with a `Left` handler and a `Right` handler.
+     * @returns The result of the handler that was applied.
+     */
+    match<T>(handlers: { Left: (value: L) => T; Right: (value: R) => T }): T {
         return this.isLeft()
-            ? Either.Left(this.unwrapLeft())
-            : Either.Right(fn(this.unwrapRight(), ctx));
+            ? handlers.Left(this.unwrapLeft())
+            : handlers.Right(this.unwrapRight());
     }
 
     /**
@@ -296,7 +659,9 @@ export class Either<L, R> {
      * @returns An `Option` containing the right value, or `None` if it's a left value.
      */
     right(): Option<R> {
-        return this.isRight() ? Option.Some(this.unwrapRight()) : Option.None();
+        return this.isRight()
+            ? Option.Some(this.unwrapRight())
+            : carryOrigin(this, Option.None());
     }
 
     /**
@@ -334,6 +699,132 @@ export class Either<L, R> {
     unwrapRight(): R {
         return this.expectRight("Tried to right-unwrap a left value");
     }
+
+    /**
+     * Converts the `Either` to a `Result`, turning the left value into an error.
+     * @param toError - A function that takes the left value and returns the error.
+     * @returns Ok with the right value, or Err with the error returned by toError.
+     */
+    toResult<E extends Error>(toError: (value: L) => E): Result<R, E> {
+        return this.isRight()
+            ? Result.Ok(this.unwrapRight())
+            : Result.Err(toError(this.unwrapLeft()));
+    }
+
+    /**
+     * Converts the `Either` to its serialized form.
+     * @returns `{ "$teav": "Left", "value": value }` or `{ "$teav": "Right", "value": value }`.
+     */
+    toJSON(): EitherJSON<L, R> {
+        return this.isLeft()
+            ? { $teav: "Left", value: this.unwrapLeft() }
+            : { $teav: "Right", value: this.unwrapRight() };
+    }
+
+    /**
+     * Checks if two `Either` instances are equal: both left with equal values, or both right with equal values.
+     * @param other - Another `Either`.
+     * @param eq - A function comparing the right values. Defaults to structural equality.
+     * @param eqLeft - A function comparing the left values. Defaults to structural equality.
+     * @returns `true` if the instances are equal, otherwise `false`.
+     */
+    equals(
+        other: Either<L, R>,
+        eq: (a: R, b: R) => boolean = deepEqual,
+        eqLeft: (a: L, b: L) => boolean = deepEqual
+    ): boolean {
+        if (this.isRight() && other.isRight()) {
+            return eq(this.unwrapRight(), other.unwrapRight());
+        }
+
+        return (
+            this.isLeft() &&
+            other.isLeft() &&
+            eqLeft(this.unwrapLeft(), other.unwrapLeft())
+        );
+    }
+
+    /**
+     * Orders two `Either` instances, left before right. Rights are ordered by their values,
+     * and lefts by theirs. Can be passed to `Array.prototype.sort` as `(a, b) => a.compare(b, cmp)`.
+     * @param other - Another `Either`.
+     * @param cmp - A function ordering the right values, returning a negative number, zero or a positive number.
+     * @param cmpLeft - A function ordering the left values. Defaults to considering every left value equal.
+     * @returns A negative number if this instance comes first, a positive number if other comes first, otherwise zero.
+     */
+    compare(
+        other: Either<L, R>,
+        cmp: (a: R, b: R) => number,
+        cmpLeft: (a: L, b: L) => number = () => 0
+    ): number {
+        if (this.isRight() && other.isRight()) {
+            return cmp(this.unwrapRight(), other.unwrapRight());
+        }
+
+        if (this.isLeft() && other.isLeft()) {
+            return cmpLeft(this.unwrapLeft(), other.unwrapLeft());
+        }
+
+        return Number(this.isRight()) - Number(other.isRight());
+    }
+
+    /**
+     * Computes a stable hash of the `Either`. Structurally equal instances have the same hash.
+     * @returns A 32-bit unsigned integer.
+     */
+    hash(): number {
+        return hashValue(this);
+    }
+
+    /**
+     * Formats the `Either` for display, such as `Left("x")` or `Right(3)`.
+     * Objects and arrays are elided; use `util.inspect` to show them in full.
+     * @returns The formatted `Either`.
+     */
+    toString(): string {
+        return this.isLeft()
+            ? formatVariant("Left", this.unwrapLeft())
+            : formatVariant("Right", this.unwrapRight());
+    }
+
+    get [Symbol.toStringTag](): string {
+        return this.isLeft() ? "Left" : "Right";
+    }
+
+    /**
+     * Formats the `Either` for `util.inspect` and `console.log`, respecting their depth and colors.
+     */
+    [SYM_INSPECT](
+        depth: number,
+        options: InspectOptions,
+        inspect?: InspectFunction
+    ): string {
+        return this.isLeft()
+            ? inspectVariant(
+                  "Left",
+                  [this.unwrapLeft()],
+                  depth,
+                  options,
+                  inspect
+              )
+            : inspectVariant(
+                  "Right",
+                  [this.unwrapRight()],
+                  depth,
+                  options,
+                  inspect
+              );
+    }
+
+    /**
+     * Iterates over the right value: once if the instance is right, and not at all if it is left.
+     * Also allows the `Either` to be unwrapped with `yield*` inside `Either.gen`.
+     */
+    [Symbol.iterator](): VariantIterator<EitherYield<L, R>, R> {
+        return this.isRight()
+            ? variantIterator(this, true, this.unwrapRight())
+            : variantIterator(this, false);
+    }
 }
 
 export class Left<L> extends Either<L, never> {
@@ -348,7 +839,7 @@ export class Left<L> extends Either<L, never> {
     }
 
     expectRight(message: string): never {
-        throw new Error(message);
+        return this.panic(message, this.expectRight);
     }
 
     isLeft(): true {
@@ -364,7 +855,18 @@ export class Left<L> extends Either<L, never> {
     }
 
     unwrapRight(): never {
-        return this.expectRight("Tried to right-unwrap a left value");
+        return this.panic(
+            "Tried to right-unwrap a left value",
+            this.unwrapRight
+        );
+    }
+
+    private panic(message: string, entry: Function): never {
+        const error = panicError(message, this);
+
+        fireUnwrapPanic("Left", this.value, error, entry);
+
+        throw error;
     }
 }
 
@@ -376,7 +878,7 @@ export class Right<R> extends Either<never, R> {
     }
 
     expectLeft(message: string): never {
-        throw new Error(message);
+        return this.panic(message, this.expectLeft);
     }
 
     expectRight(message: string): R {
@@ -392,10 +894,21 @@ export class Right<R> extends Either<never, R> {
     }
 
     unwrapLeft(): never {
-        return this.expectLeft("Tried to left-unwrap a right value");
+        return this.panic(
+            "Tried to left-unwrap a right value",
+            this.unwrapLeft
+        );
     }
 
     unwrapRight(): R {
         return this.value;
     }
+
+    private panic(message: string, entry: Function): never {
+        const error = panicError(message, this);
+
+        fireUnwrapPanic("Right", this.value, error, entry);
+
+        throw error;
+    }
 }
@@ -1,5 +1,8 @@
+import test from "ava";
 import { testProp, fc } from "@fast-check/ava";
+import { Equal } from "../test-types";
 import { Option } from "./option";
+import { Result } from "./result";
 
 const genOptions = (v: unknown) => [Option.Some(v), Option.None()] as const;
 
@@ -55,3 +58,134 @@ testProp("okOr", [fc.anything()], (t, v) => {
         t.is(error, err);
     }
 });
+
+testProp("toEither", [fc.anything(), fc.anything()], (t, v, l) => {
+    const [some, none] = genOptions(v);
+
+    t.is(some.toEither(l).unwrapRight(), v);
+    t.is(none.toEither(l).unwrapLeft(), l);
+});
+
+testProp("zip and unzip", [fc.anything(), fc.anything()], (t, v1, v2) => {
+    const [some1, none1] = genOptions(v1);
+    const [some2, none2] = genOptions(v2);
+
+    t.deepEqual(some1.zip(some2).unwrap(), [v1, v2]);
+    t.is(some1.zip(none2).isNone(), true);
+    t.is(none1.zip(some2).isNone(), true);
+
+    const [a, b] = Option.unzip(some1.zip(some2));
+
+    t.is(a.unwrap(), v1);
+    t.is(b.unwrap(), v2);
+    t.deepEqual(
+        Option.unzip(Option.None()).map((option) => option.isNone()),
+        [true, true]
+    );
+});
+
+testProp("zipWith", [fc.integer(), fc.integer()], (t, a, b) => {
+    t.is(
+        Option.Some(a)
+            .zipWith(Option.Some(b), (x, y) => x + y)
+            .unwrap(),
+        a + b
+    );
+    t.is(
+        Option.None()
+            .zipWith(Option.Some(b), (x, y) => y)
+            .isNone(),
+        true
+    );
+});
+
+testProp("transpose", [fc.anything()], (t, v) => {
+    const error = new Error();
+
+    t.is(Option.Some(Result.Ok(v)).transpose().unwrap().unwrap(), v);
+    t.is(Option.Some(Result.Err(error)).transpose().err().unwrap(), error);
+    t.is(Option.None().transpose().unwrap().isNone(), true);
+    t.is(Result.Ok(Option.Some(v)).transpose().unwrap().unwrap(), v);
+    t.is(Result.Ok(Option.None()).transpose().isNone(), true);
+    t.is(Result.Err(error).transpose().unwrap().err().unwrap(), error);
+});
+
+testProp("transposeAsync", [fc.anything()], async (t, v) => {
+    t.is((await Option.Some(Promise.resolve(v)).transposeAsync()).unwrap(), v);
+    t.is((await Option.None().transposeAsync()).isNone(), true);
+});
+
+testProp("gen", [fc.anything(), fc.anything()], (t, v1, v2) => {
+    const [some1, none1] = genOptions(v1);
+    const [some2] = genOptions(v2);
+
+    const both = Option.gen(function* () {
+        const a = yield* some1;
+        const b = yield* some2;
+
+        return [a, b];
+    });
+
+    const short = Option.gen(function* () {
+        const a = yield* none1;
+        const b = yield* some2;
+
+        return [a, b];
+    });
+
+    t.deepEqual(both.unwrap(), [v1, v2]);
+    t.is(short.isNone(), true);
+});
+
+test("gen accepts unknown and any payloads", (t) => {
+    const some: Option<unknown> = Option.Some(1);
+    const someAny: Option<any> = Option.Some(2);
+
+    const option = Option.gen(function* () {
+        yield* some;
+        yield* someAny;
+
+        return 3;
+    });
+    const inferred: Equal<typeof option, Option<number>> = true;
+
+    t.true(inferred);
+    t.is(option.unwrap(), 3);
+});
+
+test("genAsync", async (t) => {
+    const option = await Option.genAsync(async function* () {
+        const a = yield* await Promise.resolve(Option.Some(1));
+        const b = yield* Option.ofNullable<number>(2);
+
+        return a + b;
+    });
+
+    t.is(option.unwrap(), 3);
+});
+
+testProp("all", [fc.anything(), fc.anything()], (t, v1, v2) => {
+    const [some1, none1] = genOptions(v1);
+    const [some2] = genOptions(v2);
+
+    t.deepEqual(Option.all([some1, some2]).unwrap(), [v1, v2]);
+    t.deepEqual(Option.all({ a: some1, b: some2 }).unwrap(), { a: v1, b: v2 });
+    t.is(Option.all([some1, none1]).isNone(), true);
+});
+
+testProp("collect", [fc.array(fc.option(fc.integer()))], (t, values) => {
+    const collected = Option.collect(
+        values.map((value) => Option.ofNullable(value))
+    );
+
+    if (values.includes(null)) {
+        t.is(collected.isNone(), true);
+    } else {
+        t.deepEqual(collected.unwrap(), values);
+    }
+});
+
+testProp("fromPromise", [fc.anything()], async (t, v) => {
+    t.is((await Option.fromPromise(Promise.resolve(v))).unwrap(), v);
+    t.true((await Option.fromPromise(Promise.reject(new Error()))).isNone());
+});
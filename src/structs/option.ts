@@ -1,6 +1,25 @@
-import { SYM_NONE, SYM_SOME } from "../constants";
+import { SYM_INSPECT, SYM_NONE, SYM_SOME } from "../constants";
+import {
+    FromJSONOptions,
+    MalformedJSONError,
+    OptionJSON,
+    revive,
+} from "../json";
+import { carryOrigin, panicError, recordOrigin } from "../debug";
+import { deepEqual, hashValue } from "../equality";
+import { fireUnwrapPanic } from "../hooks";
+import {
+    formatVariant,
+    InspectFunction,
+    InspectOptions,
+    inspectVariant,
+} from "../inspect";
+import { variantIterator, VariantIterator } from "../iter";
+import { Either } from "./either";
 import { Result } from "./result";
 
+type SomeType<O> = O extends Option<infer T> ? T : never;
+
 /**
  * The `Option` class is a utility for handling optional values in TypeScript.
  * It is used to represent encapsulated values that may either be present (`Some`)
@@ -65,7 +84,11 @@ export class Option<T> {
      * @returns An Option instance representing none.
      */
     static None(): None {
-        return new None();
+        const none = new None();
+
+        recordOrigin(none, "None", Option.None);
+
+        return none;
     }
 
     /**
@@ -79,6 +102,170 @@ export class Option<T> {
             : this.Some(value);
     }
 
+    /**
+     * Creates an Option from a promise, discarding the rejection reason.
+     * @param promise - The promise to convert.
+     * @returns A promise that resolves to Some with the resolved value, or None if the promise rejects.
+     */
+    static async fromPromise<T>(promise: PromiseLike<T>): Promise<Option<T>> {
+        try {
+            return this.Some(await promise);
+        } catch {
+            return this.None();
+        }
+    }
+
+    /**
+     * Runs a generator function in which `yield*` unwraps Options, short-circuiting on the first None.
+     *
+     * Example:
+     * ```
+     * const city = Option.gen(function* () {
+     *   const user = yield* findUser(id);
+     *   const address = yield* Option.ofNullable(user.address);
+     *   return address.city;
+     * });
+     * ```
+     * @param fn - A generator function that yields Options and returns the final value.
+     * @returns Some with the returned value, or None if any yielded Option was None.
+     */
+    static gen<T>(fn: () => Generator<unknown, T, unknown>): Option<T> {
+        const iterator = fn();
+        const step = iterator.next();
+
+        if (!step.done) {
+            iterator.return(undefined as T);
+
+            return step.value as None;
+        }
+
+        return this.Some(step.value);
+    }
+
+    /**
+     * Asynchronous version of `gen`. Inside the async generator, `yield*` unwraps Options
+     * and awaited promises of Options, short-circuiting on the first None.
+     * @param fn - An async generator function that yields Options and returns the final value.
+     * @returns A promise resolving to Some with the returned value, or None if any yielded Option was None.
+     */
+    static async genAsync<T>(
+        fn: () => AsyncGenerator<unknown, T, unknown>
+    ): Promise<Option<T>> {
+        const iterator = fn();
+        const step = await iterator.next();
+
+        if (!step.done) {
+            await iterator.return(undefined as T);
+
+            return step.value as None;
+        }
+
+        return this.Some(step.value);
+    }
+
+    /**
+     * Combines a tuple, array or record of Options into a single Option of the same shape,
+     * returning None if any of them is None.
+     *
+     * Example:
+     * ```
+     * // Option<[User, Address]>
+     * const both = Option.all([findUser(id), findAddress(id)]);
+     * ```
+     * @param options - A tuple, array or record of Options.
+     * @returns Some with the unwrapped values in the same shape, or None.
+     */
+    static all<
+        const C extends
+            | ReadonlyArray<Option<unknown>>
+            | Readonly<Record<string, Option<unknown>>>,
+    >(options: C): Option<{ -readonly [K in keyof C]: SomeType<C[K]> }> {
+        const values: any = Array.isArray(options) ? [] : {};
+
+        for (const [key, option] of Object.entries(options)) {
+            if (option.isNone()) {
+                return this.None();
+            }
+
+            values[key] = option.unwrap();
+        }
+
+        return this.Some(values);
+    }
+
+    /**
+     * Collects an iterable of Options into an Option of an array, stopping at the first None.
+     * The iterable is not consumed past the first None.
+     * @param options - An iterable of Options.
+     * @returns Some with every unwrapped value, or None.
+     */
+    static collect<T>(options: Iterable<Option<T>>): Option<T[]> {
+        const values: T[] = [];
+
+        for (const option of options) {
+            if (option.isNone()) {
+                return this.None();
+            }
+
+            values.push(option.unwrap());
+        }
+
+        return this.Some(values);
+    }
+
+    /**
+     * Splits an Option of a pair into a pair of Options.
+     * @param option - An Option containing a tuple of two values.
+     * @returns A tuple of two Somes if the Option is Some, otherwise a tuple of two Nones.
+     */
+    static unzip<T, U>(option: Option<[T, U]>): [Option<T>, Option<U>] {
+        if (option.isNone()) {
+            return [this.None(), this.None()];
+        }
+
+        const [a, b] = option.unwrap();
+
+        return [this.Some(a), this.Some(b)];
+    }
+
+    /**
+     * Rebuilds an Option from its serialized form, as produced by `toJSON`.
+     * Nested Results, Options, Eithers and errors are rebuilt as well.
+     * The contained value type is not checked.
+     * @param json - A parsed JSON value.
+     * @param options - Options for rebuilding errors.
+     * @returns Ok with the rebuilt Option, or Err if the value is not a serialized Option.
+     */
+    static fromJSON<T = unknown>(
+        json: unknown,
+        options: FromJSONOptions = {}
+    ): Result<Option<T>, MalformedJSONError> {
+        return revive(json, "$", options).andThen((value) =>
+            Option.isOption(value)
+                ? Result.Ok(value as Option<T>)
+                : Result.Err(
+                      new MalformedJSONError(
+                          "Expected a serialized Option",
+                          "$"
+                      )
+                  )
+        );
+    }
+
+    /**
+     * Checks if a value is an Option. Unlike `instanceof`, this also recognizes Options
+     * created by another copy of teav or in another realm.
+     * @param value - The value to check.
+     * @returns true if the value is an Option, false otherwise.
+     */
+    static isOption(value: unknown): value is Option<unknown> {
+        return (
+            typeof value === "object" &&
+            value !== null &&
+            (Reflect.has(value, SYM_SOME) || Reflect.has(value, SYM_NONE))
+        );
+    }
+
     /**
      * Checks if the Option is None.
      * @returns true if the Option is None, false otherwise.
@@ -110,7 +297,7 @@ export class Option<T> {
      * @returns A new Option instance with the transformed value.
      */
     map<U>(fn: (value: T) => U): Option<U> {
-        return this.isSome() ? Option.Some(fn(this.unwrap())) : Option.None();
+        return this.isNone() ? this : Option.Some(fn(this.unwrap()));
     }
 
     /**
@@ -133,13 +320,23 @@ export class Option<T> {
         return this.isSome() ? this.map(fn).unwrap() : other();
     }
 
+    /**
+     * Applies one of two handlers depending on whether the Option is Some or None.
+     * Both handlers must be provided.
+     * @param handlers - An object with a `Some` handler for the value and a `None` handler.
+     * @returns The result of the handler that was applied.
+     */
+    match<U>(handlers: { Some: (value: T) => U; None: () => U }): U {
+        return this.isSome() ? handlers.Some(this.unwrap()) : handlers.None();
+    }
+
     /**
      * Returns another Option if the Option is Some, otherwise returns None.
      * @param optb - Another Option to return if the original Option is Some.
      * @returns The provided Option if the original Option is Some, otherwise None.
      */
     and<U>(optb: Option<U>): Option<U> {
-        return this.isSome() ? optb : Option.None();
+        return this.isNone() ? this : optb;
     }
 
     /**
@@ -148,7 +345,7 @@ export class Option<T> {
      * @returns The result of applying fn to the wrapped value if the Option is Some, otherwise None.
      */
     andThen<U>(fn: (value: T) => Option<U>): Option<U> {
-        return this.isSome() ? fn(this.unwrap()) : Option.None();
+        return this.isNone() ? this : fn(this.unwrap());
     }
 
     /**
@@ -188,7 +385,11 @@ export class Option<T> {
             return this["value"];
         }
 
-        throw new Error(errorMsg);
+        const error = panicError(errorMsg, this);
+
+        fireUnwrapPanic("None", undefined, error, this.expect);
+
+        throw error;
     }
 
     /**
@@ -246,7 +447,7 @@ export class Option<T> {
 
         const value = this.unwrap();
 
-        if (value instanceof Option) {
+        if (Option.isOption(value)) {
             return value as any;
         }
 
@@ -259,7 +460,57 @@ export class Option<T> {
      * @returns Some if only one of the Options is Some, otherwise None.
      */
     xor(optb: Option<T>): Option<T> {
-        return this.isSome() !== optb.isSome() ? this.or(optb) : Option.None();
+        if (this.isSome() === optb.isSome()) {
+            return this.isSome() ? Option.None() : this;
+        }
+
+        return this.or(optb);
+    }
+
+    /**
+     * Combines two Options into one containing both values as a tuple.
+     * @param other - Another Option.
+     * @returns Some with both values if both Options are Some, otherwise None.
+     */
+    zip<U>(other: Option<U>): Option<[T, U]> {
+        return this.zipWith(other, (a, b) => [a, b]);
+    }
+
+    /**
+     * Combines the values of two Options using a function.
+     * @param other - Another Option.
+     * @param fn - A function combining both values.
+     * @returns Some with the combined value if both Options are Some, otherwise None.
+     */
+    zipWith<U, V>(other: Option<U>, fn: (a: T, b: U) => V): Option<V> {
+        if (this.isNone()) {
+            return this;
+        }
+
+        return other.isNone()
+            ? other
+            : Option.Some(fn(this.unwrap(), other.unwrap()));
+    }
+
+    /**
+     * Transposes an Option of a Result into a Result of an Option.
+     * None is mapped to Ok(None), and Some(Ok(value)) and Some(Err(error)) to Ok(Some(value)) and Err(error).
+     * @returns A Result containing an Option.
+     */
+    transpose<U, E extends Error>(
+        this: Option<Result<U, E>>
+    ): Result<Option<U>, E> {
+        return this.isNone()
+            ? Result.Ok(this)
+            : this.unwrap().map((value) => Option.Some(value));
+    }
+
+    /**
+     * Transposes an Option of a promise into a promise of an Option.
+     * @returns A promise resolving to Some with the awaited value, or to None if the Option is None.
+     */
+    async transposeAsync<U>(this: Option<PromiseLike<U>>): Promise<Option<U>> {
+        return this.isNone() ? this : Option.Some(await this.unwrap());
     }
 
     /**
@@ -281,6 +532,102 @@ export class Option<T> {
             ? Result.Ok(this.unwrap())
             : Result.Err(errorFactory());
     }
+
+    /**
+     * Converts the Option to an `Either`, returning a right if the Option is Some, otherwise a left with a provided value.
+     * @param leftValue - The value to use in the left variant if the Option is None.
+     * @returns A right containing the wrapped value, or a left containing leftValue.
+     */
+    toEither<L>(leftValue: L): Either<L, T> {
+        return this.isSome()
+            ? Either.Right(this.unwrap())
+            : carryOrigin(this, Either.Left(leftValue));
+    }
+
+    /**
+     * Converts the Option to its serialized form.
+     * @returns `{ "$teav": "Some", "value": value }` or `{ "$teav": "None" }`.
+     */
+    toJSON(): OptionJSON<T> {
+        return this.isSome()
+            ? { $teav: "Some", value: this.unwrap() }
+            : { $teav: "None" };
+    }
+
+    /**
+     * Checks if two Options are equal: both None, or both Some with equal values.
+     * @param other - Another Option.
+     * @param eq - A function comparing the values. Defaults to structural equality.
+     * @returns true if the Options are equal, false otherwise.
+     */
+    equals(other: Option<T>, eq: (a: T, b: T) => boolean = deepEqual): boolean {
+        if (this.isSome() && other.isSome()) {
+            return eq(this.unwrap(), other.unwrap());
+        }
+
+        return this.isNone() && other.isNone();
+    }
+
+    /**
+     * Orders two Options, None before Some. Somes are ordered by their values.
+     * Can be passed to `Array.prototype.sort` as `(a, b) => a.compare(b, cmp)`.
+     * @param other - Another Option.
+     * @param cmp - A function ordering the values, returning a negative number, zero or a positive number.
+     * @returns A negative number if this Option comes first, a positive number if other comes first, otherwise zero.
+     */
+    compare(other: Option<T>, cmp: (a: T, b: T) => number): number {
+        if (this.isSome() && other.isSome()) {
+            return cmp(this.unwrap(), other.unwrap());
+        }
+
+        return Number(this.isSome()) - Number(other.isSome());
+    }
+
+    /**
+     * Computes a stable hash of the Option. Structurally equal Options have the same hash.
+     * @returns A 32-bit unsigned integer.
+     */
+    hash(): number {
+        return hashValue(this);
+    }
+
+    /**
+     * Formats the Option for display, such as `Some(3)` or `None`.
+     * Objects and arrays are elided; use `util.inspect` to show them in full.
+     * @returns The formatted Option.
+     */
+    toString(): string {
+        return this.isSome()
+            ? formatVariant("Some", this.unwrap())
+            : formatVariant("None");
+    }
+
+    get [Symbol.toStringTag](): string {
+        return this.isSome() ? "Some" : "None";
+    }
+
+    /**
+     * Formats the Option for `util.inspect` and `console.log`, respecting their depth and colors.
+     */
+    [SYM_INSPECT](
+        depth: number,
+        options: InspectOptions,
+        inspect?: InspectFunction
+    ): string {
+        return this.isSome()
+            ? inspectVariant("Some", [this.unwrap()], depth, options, inspect)
+            : inspectVariant("None", [], depth, options, inspect);
+    }
+
+    /**
+     * Iterates over the Some value: once if the Option is Some, and not at all if it is None.
+     * Also allows the Option to be unwrapped with `yield*` inside `Option.gen`.
+     */
+    [Symbol.iterator](): VariantIterator<T, T> {
+        return this.isSome()
+            ? variantIterator(this, true, this.unwrap())
+            : variantIterator(this, false);
+    }
 }
 
 export class Some<T> extends Option<T> {
@@ -327,11 +674,19 @@ export class None extends Option<never> {
     }
 
     expect(errorMsg: string): never {
-        throw new Error(errorMsg);
+        return this.panic(errorMsg, this.expect);
     }
 
     unwrap(): never {
-        return this.expect("Tried to unwrap a None value");
+        return this.panic("Tried to unwrap a None value", this.unwrap);
+    }
+
+    private panic(message: string, entry: Function): never {
+        const error = panicError(message, this);
+
+        fireUnwrapPanic("None", undefined, error, entry);
+
+        throw error;
     }
 
     unwrapOrUndefined(): undefined {
@@ -1,4 +1,6 @@
+import test from "ava";
 import { testProp, fc } from "@fast-check/ava";
+import { Equal } from "../test-types";
 import { Result } from "./result";
 
 testProp("map", [fc.anything()], (t, v) => {
@@ -33,3 +35,267 @@ testProp("mapErr", [fc.anything()], (t, v) => {
         t.is((error as Error).message, e.message);
     }
 });
+
+class ParseError extends Error {}
+class LoadError extends Error {}
+
+const parse = (input: string): Result<number, ParseError> =>
+    Number.isNaN(Number(input))
+        ? Result.Err(new ParseError(input))
+        : Result.Ok(Number(input));
+
+const load = (id: number): Result<string, LoadError> =>
+    id > 0 ? Result.Ok(`user-${id}`) : Result.Err(new LoadError(`${id}`));
+
+testProp("gen", [fc.integer()], (t, v) => {
+    const result: Result<string, ParseError | LoadError> = Result.gen(
+        function* () {
+            const id = yield* parse(`${v}`);
+            const user = yield* load(id);
+
+            return user.toUpperCase();
+        }
+    );
+
+    if (v > 0) {
+        t.is(result.unwrap(), `USER-${v}`);
+    } else {
+        t.true(result.err().unwrap() instanceof LoadError);
+    }
+});
+
+test("gen widens the error of unknown and any payloads", (t) => {
+    const lookup = (id: number): Result<unknown, LoadError> => load(id);
+    const lookupAny = (id: number): Result<any, LoadError> => load(id);
+
+    const result = Result.gen(function* () {
+        yield* lookup(1);
+        yield* lookupAny(2);
+
+        return 3;
+    });
+    const inferred: Equal<typeof result, Result<number, Error>> = true;
+
+    t.true(inferred);
+    t.is(result.unwrap(), 3);
+});
+
+test("gen short-circuits on the first Err", (t) => {
+    let reached = false;
+    let cleanedUp = false;
+
+    const result = Result.gen(function* () {
+        try {
+            const id = yield* parse("nope");
+            reached = true;
+
+            return yield* load(id);
+        } finally {
+            cleanedUp = true;
+        }
+    });
+
+    t.false(reached);
+    t.true(cleanedUp);
+    t.true(result.err().unwrap() instanceof ParseError);
+});
+
+test("genAsync", async (t) => {
+    const result = await Result.genAsync(async function* () {
+        const id = yield* await Promise.resolve(parse("3"));
+        const user = yield* load(id).toAsync();
+
+        return user;
+    });
+
+    t.is(result.unwrap(), "user-3");
+
+    const failed = await Result.genAsync(async function* () {
+        const id = yield* await Promise.resolve(parse("-1"));
+
+        return yield* load(id).toAsync();
+    });
+
+    t.true(failed.err().unwrap() instanceof LoadError);
+});
+
+test("all", (t) => {
+    const tuple: Result<[number, string], ParseError | LoadError> = Result.all([
+        parse("1"),
+        load(2),
+    ]);
+    const record: Result<{ id: number; user: string }, ParseError | LoadError> =
+        Result.all({ id: parse("1"), user: load(2) });
+
+    t.deepEqual(tuple.unwrap(), [1, "user-2"]);
+    t.deepEqual(record.unwrap(), { id: 1, user: "user-2" });
+    t.true(
+        Result.all([parse("1"), load(0)])
+            .err()
+            .unwrap() instanceof LoadError
+    );
+    t.true(
+        Result.all({ id: parse("x"), user: load(0) })
+            .err()
+            .unwrap() instanceof ParseError
+    );
+});
+
+testProp("collect", [fc.array(fc.integer())], (t, ids) => {
+    const collected = Result.collect(ids.map(load));
+    const firstInvalid = ids.find((id) => id <= 0);
+
+    if (firstInvalid === undefined) {
+        t.deepEqual(
+            collected.unwrap(),
+            ids.map((id) => `user-${id}`)
+        );
+    } else {
+        t.is(collected.err().unwrap().message, `${firstInvalid}`);
+    }
+});
+
+test("collect stops at the first Err", (t) => {
+    let consumed = 0;
+
+    function* results() {
+        for (const id of [1, 0, 2]) {
+            consumed++;
+            yield load(id);
+        }
+    }
+
+    t.true(Result.collect(results()).isErr());
+    t.is(consumed, 2);
+});
+
+testProp("any", [fc.array(fc.integer())], (t, ids) => {
+    const first = Result.any(ids.map(load));
+    const firstValid = ids.find((id) => id > 0);
+
+    if (firstValid === undefined) {
+        t.is(first.err().unwrap().errors.length, ids.length);
+    } else {
+        t.is(first.unwrap(), `user-${firstValid}`);
+    }
+});
+
+testProp("partition", [fc.array(fc.integer())], (t, ids) => {
+    const [oks, errs] = Result.partition(ids.map(load));
+
+    t.deepEqual(
+        oks,
+        ids.filter((id) => id > 0).map((id) => `user-${id}`)
+    );
+    t.deepEqual(
+        errs.map((error) => error.message),
+        ids.filter((id) => id <= 0).map((id) => `${id}`)
+    );
+});
+
+testProp("zip and unzip", [fc.anything(), fc.anything()], (t, v1, v2) => {
+    const error1 = new Error("first");
+    const error2 = new Error("second");
+
+    t.deepEqual(Result.Ok(v1).zip(Result.Ok(v2)).unwrap(), [v1, v2]);
+    t.is(Result.Err(error1).zip(Result.Err(error2)).err().unwrap(), error1);
+    t.is(Result.Ok(v1).zip(Result.Err(error2)).err().unwrap(), error2);
+
+    const [a, b] = Result.unzip(Result.Ok(v1).zip(Result.Ok(v2)));
+
+    t.is(a.unwrap(), v1);
+    t.is(b.unwrap(), v2);
+    t.deepEqual(
+        Result.unzip(Result.Err(error1)).map((result) => result.err().unwrap()),
+        [error1, error1]
+    );
+});
+
+testProp("zipWith", [fc.integer(), fc.integer()], (t, a, b) => {
+    t.is(
+        Result.Ok(a)
+            .zipWith(Result.Ok(b), (x, y) => x * y)
+            .unwrap(),
+        a * b
+    );
+});
+
+testProp("toEither", [fc.anything()], (t, v) => {
+    const error = new Error();
+
+    t.is(Result.Ok(v).toEither().unwrapRight(), v);
+    t.is(Result.Err(error).toEither().unwrapLeft(), error);
+});
+
+testProp("fromPromise and toPromise", [fc.anything()], async (t, v) => {
+    const toError = (error: unknown) => new Error(String(error));
+
+    t.is((await Result.fromPromise(Promise.resolve(v), toError)).unwrap(), v);
+    t.is(
+        (await Result.fromPromise(Promise.reject("nope"), toError))
+            .err()
+            .unwrap().message,
+        "nope"
+    );
+
+    const error = new Error();
+
+    t.is(await Result.Ok(v).toPromise(), v);
+    await t.throwsAsync(Result.Err(error).toPromise(), { is: error });
+});
+
+test("fromCallback and toCallback", async (t) => {
+    const read = (
+        path: string,
+        callback: (error: Error | null, contents?: string) => void
+    ) =>
+        setImmediate(() =>
+            path === "missing"
+                ? callback(new Error("ENOENT"))
+                : callback(null, `contents of ${path}`)
+        );
+
+    const found = await Result.fromCallback<string>((callback) =>
+        read("a.txt", callback)
+    );
+    const missing = await Result.fromCallback<string>((callback) =>
+        read("missing", callback)
+    );
+
+    t.is(found.unwrap(), "contents of a.txt");
+    t.is(missing.err().unwrap().message, "ENOENT");
+
+    const calls: unknown[][] = [];
+    const callback = (...args: unknown[]) => calls.push(args);
+
+    Result.toCallback(found, callback);
+    Result.toCallback(missing, callback);
+    t.deepEqual(calls, []);
+    await new Promise<void>((resolve) =>
+        Result.toCallback(Promise.resolve(found), (...args) => {
+            callback(...args);
+            resolve();
+        })
+    );
+
+    t.deepEqual(calls, [
+        [null, "contents of a.txt"],
+        [missing.err().unwrap()],
+        [null, "contents of a.txt"],
+    ]);
+});
+
+test("toCallback passes rejection reasons to the callback", async (t) => {
+    const reason = new TypeError("failed");
+    const receive = (promise: PromiseLike<Result<string, Error>>) =>
+        new Promise<unknown[]>((resolve) =>
+            Result.toCallback(promise, (...args) => resolve(args))
+        );
+
+    t.deepEqual(await receive(Promise.reject(reason)), [reason]);
+
+    const [error] = await receive(Promise.reject(null));
+
+    t.true(error instanceof Error);
+    t.is((error as Error).cause, null);
+});
@@ -1,5 +1,75 @@
-import { SYM_ERR, SYM_OK } from "../constants";
+import { SYM_ERR, SYM_INSPECT, SYM_OK } from "../constants";
+import {
+    abortable,
+    AbortedError,
+    AbortOptions,
+    settleUnlessAborted,
+    TimeoutError,
+} from "../abort";
+import {
+    buildReport,
+    ContextError,
+    ErrorReport,
+    renderReport,
+    ReportOptions,
+} from "../errors";
+import {
+    FromJSONOptions,
+    MalformedJSONError,
+    ResultJSON,
+    revive,
+    serializeError,
+} from "../json";
+import { recordOrigin } from "../debug";
+import { deepEqual, hashValue } from "../equality";
+import { fireErr, fireFromCaught, fireUnwrapPanic } from "../hooks";
+import {
+    formatVariant,
+    InspectFunction,
+    InspectOptions,
+    inspectVariant,
+} from "../inspect";
+import { variantIterator, VariantIterator } from "../iter";
+import { retry, RetryError, RetryPolicy } from "../retry";
+import { AsyncResult } from "./async-result";
+import { Either } from "./either";
 import { None, Option, Some } from "./option";
+import { ValidationError, Validated } from "./validated";
+
+type OkType<R> = R extends Result<infer T, Error> ? T : never;
+type ErrType<R> = R extends Result<unknown, infer E> ? E : never;
+type Values<C> = C extends readonly unknown[] ? C[number] : C[keyof C];
+// An `unknown` or `any` Ok value absorbs the Errs in the yield type of a generator,
+// so every error is possible then.
+type GenError<Y> = unknown extends Y
+    ? Error
+    : Y extends Err<infer F>
+      ? F
+      : never;
+
+/**
+ * The union of the `_tag`s of the tagged errors in `E`.
+ */
+export type ErrorTag<E> = E extends { readonly _tag: infer K extends string }
+    ? K
+    : never;
+
+type CatchTagsHandlers<E, H> = {
+    [K in keyof H]: (error: Extract<E, { readonly _tag: K }>) => H[K];
+};
+
+/**
+ * A constructor of errors, as accepted by `Result.from` and `Result.fromAsync`.
+ */
+export type ErrorClass<E extends Error = Error> = new (...args: any[]) => E;
+
+/**
+ * The yield type of the iterator of a Result. An Err never produces a value when
+ * iterated, but is part of the yield type so that `Result.gen` can infer the union
+ * of every error yielded with `yield*`.
+ */
+export type ResultYield<T, E extends Error> =
+    T | (E extends Error ? Err<E> : never);
 
 /**
  * The `Result` class in TypeScript is a versatile construct used for error handling
@@ -64,7 +134,12 @@ export class Result<T, E extends Error> {
      * @returns A Result instance representing the error.
      */
     static Err<E extends Error>(error: E): Err<E> {
-        return new Err(error);
+        const err = new Err(error);
+
+        recordOrigin(err, "Err", Result.Err);
+        fireErr(error, Result.Err);
+
+        return err;
     }
 
     /**
@@ -82,24 +157,31 @@ export class Result<T, E extends Error> {
 
     /**
      * Creates a Result from a function that may throw expected errors.
+     * The error type is inferred as the union of the expected error classes.
      * @param expectedErrors - An array of expected error constructors.
      * @param fn - A function that returns a value or throws an error.
      * @returns A Result instance, either Ok or Err.
      * @throws Error if an unexpected error occurs.
      */
-    static from<T, E extends Error>(
-        expectedErrors: Array<new (...args: any[]) => E>,
+    static from<
+        T,
+        E extends Error = never,
+        C extends ErrorClass[] = ErrorClass<E>[],
+    >(
+        expectedErrors: [...C],
         fn: () => T
-    ): Result<T, E> {
+    ): Result<T, E | InstanceType<C[number]>> {
         try {
             return this.Ok(fn());
         } catch (error) {
-            if (
-                expectedErrors.some(
-                    (expectedError) => error instanceof expectedError
-                )
-            ) {
-                return this.Err(error as E);
+            const expected = expectedErrors.some(
+                (expectedError) => error instanceof expectedError
+            );
+
+            fireFromCaught(error, !expected, Result.from);
+
+            if (expected) {
+                return this.Err(error as E | InstanceType<C[number]>);
             }
 
             throw error;
@@ -111,13 +193,39 @@ export class Result<T, E extends Error> {
      * @param fn - An asynchronous function that returns a promise.
      * @returns A promise that resolves to a Result instance, either Ok or Err.
      */
-    static async unsafeFromAsync<T = unknown, E extends Error = Error>(
+    static unsafeFromAsync<T = unknown, E extends Error = Error>(
         fn: () => Promise<T>
-    ): Promise<Result<T, E>> {
+    ): Promise<Result<T, E>>;
+
+    /**
+     * Asynchronously creates a Result from a function that may throw an error,
+     * aborting it after a timeout or when a signal fires. Results produced after
+     * the operation was aborted are discarded.
+     * @param fn - An asynchronous function receiving an `AbortSignal` that fires when the operation is aborted.
+     * @param options - The timeout in milliseconds and an optional signal.
+     * @returns A promise that resolves to a Result instance, either Ok, Err, or Err with a `TimeoutError` or `AbortedError`.
+     */
+    static unsafeFromAsync<T = unknown, E extends Error = Error>(
+        fn: (signal: AbortSignal) => Promise<T>,
+        options: AbortOptions
+    ): Promise<Result<T, E | TimeoutError | AbortedError>>;
+
+    static async unsafeFromAsync(
+        fn: (signal: AbortSignal) => Promise<unknown>,
+        options?: AbortOptions
+    ): Promise<Result<unknown, Error>> {
+        if (options !== undefined) {
+            return abortable(options, (signal) =>
+                this.unsafeFromAsync(() =>
+                    settleUnlessAborted(signal, fn(signal))
+                )
+            );
+        }
+
         try {
-            return this.Ok(await fn());
+            return this.Ok(await (fn as () => Promise<unknown>)());
         } catch (error) {
-            return this.Err(error as E);
+            return this.Err(error as Error);
         }
     }
 
@@ -128,23 +236,527 @@ export class Result<T, E extends Error> {
      * @returns A promise that resolves to a Result instance, either Ok or Err.
      * @throws Error if an unexpected error occurs.
      */
-    static async fromAsync<T, E extends Error>(
-        expectedErrors: Array<new (...args: any[]) => E>,
+    static fromAsync<
+        T,
+        E extends Error = never,
+        C extends ErrorClass[] = ErrorClass<E>[],
+    >(
+        expectedErrors: [...C],
         fn: () => Promise<T>
+    ): Promise<Result<T, E | InstanceType<C[number]>>>;
+
+    /**
+     * Asynchronously creates a Result from a function that may throw expected errors,
+     * aborting it after a timeout or when a signal fires. Results produced after
+     * the operation was aborted are discarded.
+     *
+     * Example:
+     * ```
+     * // Result<Response, NetworkError | TimeoutError | AbortedError>
+     * const response = await Result.fromAsync(
+     *   [NetworkError],
+     *   (signal) => fetch(url, { signal }),
+     *   { timeoutMs: 5000, signal: request.signal }
+     * );
+     * ```
+     * @param expectedErrors - An array of expected error constructors.
+     * @param fn - An asynchronous function receiving an `AbortSignal` that fires when the operation is aborted.
+     * @param options - The timeout in milliseconds and an optional signal.
+     * @returns A promise that resolves to a Result instance, either Ok, Err, or Err with a `TimeoutError` or `AbortedError`.
+     * @throws Error if an unexpected error occurs.
+     */
+    static fromAsync<
+        T,
+        E extends Error = never,
+        C extends ErrorClass[] = ErrorClass<E>[],
+    >(
+        expectedErrors: [...C],
+        fn: (signal: AbortSignal) => Promise<T>,
+        options: AbortOptions
+    ): Promise<
+        Result<T, E | InstanceType<C[number]> | TimeoutError | AbortedError>
+    >;
+
+    static async fromAsync(
+        expectedErrors: ErrorClass[],
+        fn: (signal: AbortSignal) => Promise<unknown>,
+        options?: AbortOptions
+    ): Promise<Result<unknown, Error>> {
+        if (options !== undefined) {
+            return abortable(options, (signal) =>
+                this.fromAsync(expectedErrors, () =>
+                    settleUnlessAborted(signal, fn(signal))
+                )
+            );
+        }
+
+        try {
+            return this.Ok(await (fn as () => Promise<unknown>)());
+        } catch (error) {
+            const expected = expectedErrors.some(
+                (expectedError) => error instanceof expectedError
+            );
+
+            fireFromCaught(error, !expected, Result.fromAsync);
+
+            if (expected) {
+                return this.Err(error as Error);
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Creates a Result from a promise, mapping a rejection to an error.
+     * @param promise - The promise to convert.
+     * @param mapError - A function converting the rejection reason to an error.
+     * @returns A promise that resolves to Ok with the resolved value, or Err with the mapped rejection reason.
+     */
+    static async fromPromise<T, E extends Error>(
+        promise: PromiseLike<T>,
+        mapError: (error: unknown) => E
     ): Promise<Result<T, E>> {
         try {
-            return this.Ok(await fn());
+            return this.Ok(await promise);
         } catch (error) {
-            if (
-                expectedErrors.some(
-                    (expectedError) => error instanceof expectedError
+            return this.Err(mapError(error));
+        }
+    }
+
+    /**
+     * Creates a Result from a function taking a Node-style `(error, value)` callback.
+     *
+     * Example:
+     * ```
+     * const contents = await Result.fromCallback<Buffer, NodeJS.ErrnoException>(
+     *   (callback) => fs.readFile(path, callback)
+     * );
+     * ```
+     * @param fn - A function that calls the callback once with an error or a value.
+     * @returns A promise that resolves to Ok with the value, or Err with the error passed to the callback.
+     */
+    static fromCallback<T, E extends Error = Error>(
+        fn: (callback: (error: E | null | undefined, value?: T) => void) => void
+    ): Promise<Result<T, E>> {
+        return new Promise((resolve) =>
+            fn((error, value) =>
+                resolve(
+                    error === null || error === undefined
+                        ? Result.Ok(value as T)
+                        : Result.Err(error)
                 )
-            ) {
-                return this.Err(error as E);
+            )
+        );
+    }
+
+    /**
+     * Passes a Result, or a promise of a Result, to a Node-style `(error, value)` callback.
+     * The callback is always called asynchronously, like Node's own callbacks. If the
+     * promise rejects, the rejection reason is passed as the error; a falsy reason is
+     * wrapped in an `Error` with the reason as its `cause`, as `util.callbackify` does.
+     * @param result - The Result, or a promise resolving to a Result.
+     * @param callback - A callback receiving the Err value (or the rejection reason) as its first argument, or `null` and the Ok value.
+     */
+    static toCallback<T, E extends Error>(
+        result: Result<T, E> | PromiseLike<Result<T, E>>,
+        callback: (error: E | null, value?: T) => void
+    ): void {
+        if (!this.isResult(result)) {
+            result.then(
+                (settled) => this.toCallback(settled, callback),
+                (reason: unknown) =>
+                    queueMicrotask(() =>
+                        callback(
+                            (reason ||
+                                new Error(
+                                    "Promise was rejected with a falsy value",
+                                    { cause: reason }
+                                )) as E
+                        )
+                    )
+            );
+        } else if (result.isOk()) {
+            const value = result.unwrap();
+
+            queueMicrotask(() => callback(null, value));
+        } else {
+            const error = result.err().unwrap() as E;
+
+            queueMicrotask(() => callback(error));
+        }
+    }
+
+    /**
+     * Wraps a function that may throw expected errors into a function with the same
+     * parameters that returns a Result instead.
+     *
+     * Example:
+     * ```
+     * const parseJSON = Result.wrap(JSON.parse, [SyntaxError]);
+     *
+     * parseJSON("{}"); // Ok({})
+     * parseJSON("{"); // Err(SyntaxError)
+     * ```
+     * @param fn - The function to wrap.
+     * @param expectedErrors - An array of expected error constructors.
+     * @returns A function returning Ok with the return value, or Err with an expected error.
+     * @throws Error from the returned function if an unexpected error occurs.
+     */
+    static wrap<
+        A extends unknown[],
+        T,
+        E extends Error = never,
+        C extends ErrorClass[] = ErrorClass<E>[],
+    >(
+        fn: (...args: A) => T,
+        expectedErrors: [...C]
+    ): (...args: A) => Result<T, E | InstanceType<C[number]>> {
+        return function (this: unknown, ...args) {
+            return Result.from(expectedErrors, () => fn.apply(this, args));
+        };
+    }
+
+    /**
+     * Wraps an asynchronous function that may throw expected errors into a function with
+     * the same parameters that returns a promise of a Result instead.
+     * @param fn - The asynchronous function to wrap.
+     * @param expectedErrors - An array of expected error constructors.
+     * @returns A function returning a promise that resolves to Ok with the resolved value, or Err with an expected error.
+     * @throws Error from the returned function if an unexpected error occurs.
+     */
+    static wrapAsync<
+        A extends unknown[],
+        T,
+        E extends Error = never,
+        C extends ErrorClass[] = ErrorClass<E>[],
+    >(
+        fn: (...args: A) => Promise<T>,
+        expectedErrors: [...C]
+    ): (...args: A) => Promise<Result<T, E | InstanceType<C[number]>>> {
+        return function (this: unknown, ...args) {
+            return Result.fromAsync(expectedErrors, () => fn.apply(this, args));
+        };
+    }
+
+    /**
+     * Re-runs an asynchronous operation returning a Result until it returns Ok,
+     * waiting between attempts according to a backoff policy.
+     *
+     * Example:
+     * ```
+     * const user = await Result.retry(
+     *   () => Result.fromAsync([NetworkError], () => fetchUser(id)),
+     *   { maxAttempts: 5, backoff: "exponential", delayMs: 200, jitter: true }
+     * );
+     *
+     * if (user.isErr()) {
+     *   console.error(user.err().unwrap().errors); // the error of every attempt
+     * }
+     * ```
+     * @param fn - A function receiving the attempt number (starting at 1) and returning a Result.
+     * @param policy - The retry policy. Retries every error up to 3 attempts by default.
+     * @returns An AsyncResult resolving to the first Ok, or to a `RetryError` with the error of every attempt.
+     */
+    static retry<T, E extends Error>(
+        fn: (attempt: number) => PromiseLike<Result<T, E>> | Result<T, E>,
+        policy?: RetryPolicy<E>
+    ): AsyncResult<T, RetryError<E>> {
+        return retry(fn, policy);
+    }
+
+    /**
+     * Runs a generator function in which `yield*` unwraps Results, short-circuiting on the first Err.
+     *
+     * Example:
+     * ```
+     * const result = Result.gen(function* () {
+     *   const config = yield* parseConfig(input);
+     *   const user = yield* loadUser(config.userId);
+     *   return user.name;
+     * });
+     * ```
+     * @param fn - A generator function that yields Results and returns the final value.
+     * @returns Ok with the returned value, or the first Err that was yielded.
+     */
+    static gen<T, Y>(
+        fn: () => Generator<Y, T, unknown>
+    ): Result<T, GenError<Y>> {
+        const iterator = fn();
+        const step = iterator.next();
+
+        if (!step.done) {
+            iterator.return(undefined as T);
+
+            return step.value as any;
+        }
+
+        return this.Ok(step.value);
+    }
+
+    /**
+     * Asynchronous version of `gen`. Inside the async generator, `yield*` unwraps Results,
+     * AsyncResults and awaited promises of Results, short-circuiting on the first Err.
+     *
+     * Example:
+     * ```
+     * const result = Result.genAsync(async function* () {
+     *   const user = yield* await fetchUser(id);
+     *   const posts = yield* fetchPosts(user).toAsync();
+     *   return posts;
+     * });
+     * ```
+     * @param fn - An async generator function that yields Results and returns the final value.
+     * @returns An AsyncResult resolving to Ok with the returned value, or the first Err that was yielded.
+     */
+    static genAsync<T, Y>(
+        fn: () => AsyncGenerator<Y, T, unknown>
+    ): AsyncResult<T, GenError<Y>> {
+        return AsyncResult.fromPromise(
+            (async () => {
+                const iterator = fn();
+                const step = await iterator.next();
+
+                if (!step.done) {
+                    await iterator.return(undefined as T);
+
+                    return step.value as any;
+                }
+
+                return Result.Ok(step.value);
+            })()
+        );
+    }
+
+    /**
+     * Combines a tuple, array or record of Results into a single Result of the same shape,
+     * short-circuiting on the first Err.
+     *
+     * Example:
+     * ```
+     * // Result<[number, string], ParseError | LoadError>
+     * const both = Result.all([parse(input), load(id)]);
+     *
+     * // Result<{ port: number; host: string }, ConfigError>
+     * const config = Result.all({ port: readPort(), host: readHost() });
+     * ```
+     * @param results - A tuple, array or record of Results.
+     * @returns Ok with the unwrapped values in the same shape, or the first Err encountered.
+     */
+    static all<
+        const C extends
+            | ReadonlyArray<Result<unknown, Error>>
+            | Readonly<Record<string, Result<unknown, Error>>>,
+    >(
+        results: C
+    ): Result<{ -readonly [K in keyof C]: OkType<C[K]> }, ErrType<Values<C>>> {
+        const values: any = Array.isArray(results) ? [] : {};
+
+        for (const [key, result] of Object.entries(results)) {
+            if (result.isErr()) {
+                return result as any;
             }
 
-            throw error;
+            values[key] = result.unwrap();
         }
+
+        return this.Ok(values);
+    }
+
+    /**
+     * Combines a tuple, array or record of independent Results into a single Result of the
+     * same shape. Unlike `all`, every Err is collected instead of stopping at the first one.
+     *
+     * Example:
+     * ```
+     * const form = Result.validate({
+     *   name: checkName(input.name),
+     *   email: checkEmail(input.email),
+     * });
+     *
+     * if (form.isErr()) {
+     *   console.error(form.err().unwrap().errors);
+     * }
+     * ```
+     * @param results - A tuple, array or record of Results.
+     * @returns Ok with the unwrapped values in the same shape, or Err with a `ValidationError` containing every error.
+     * @see Validated
+     */
+    static validate<
+        const C extends
+            | ReadonlyArray<Result<unknown, Error>>
+            | Readonly<Record<string, Result<unknown, Error>>>,
+    >(
+        results: C
+    ): Result<
+        { -readonly [K in keyof C]: OkType<C[K]> },
+        ValidationError<ErrType<Values<C>>>
+    > {
+        return Validated.all(results).toResult() as any;
+    }
+
+    /**
+     * Returns the first Ok in an iterable of Results.
+     * @param results - An iterable of Results.
+     * @returns The first Ok encountered, or an Err containing an `AggregateError` of every error if there is none.
+     */
+    static any<T, E extends Error>(
+        results: Iterable<Result<T, E>>
+    ): Result<T, AggregateError> {
+        const errors: E[] = [];
+
+        for (const result of results) {
+            if (result.isOk()) {
+                return result;
+            }
+
+            errors.push(result.err().unwrap() as E);
+        }
+
+        return this.Err(new AggregateError(errors, "No Ok value was found"));
+    }
+
+    /**
+     * Collects an iterable of Results into a Result of an array, stopping at the first Err.
+     * The iterable is not consumed past the first Err.
+     * @param results - An iterable of Results.
+     * @returns Ok with every unwrapped value, or the first Err encountered.
+     */
+    static collect<T, E extends Error>(
+        results: Iterable<Result<T, E>>
+    ): Result<T[], E> {
+        const values: T[] = [];
+
+        for (const result of results) {
+            if (result.isErr()) {
+                return result as any;
+            }
+
+            values.push(result.unwrap());
+        }
+
+        return this.Ok(values);
+    }
+
+    /**
+     * Splits a Result of a pair into a pair of Results.
+     * @param result - A Result containing a tuple of two values.
+     * @returns A tuple of two Oks if the Result is Ok, otherwise a tuple of the original Err.
+     */
+    static unzip<T, U, E extends Error>(
+        result: Result<[T, U], E>
+    ): [Result<T, E>, Result<U, E>] {
+        if (result.isErr()) {
+            return [result as any, result as any];
+        }
+
+        const [a, b] = result.unwrap();
+
+        return [this.Ok(a), this.Ok(b)];
+    }
+
+    /**
+     * Splits an iterable of Results into the Ok values and the Err values.
+     * @param results - An iterable of Results.
+     * @returns A tuple containing every Ok value and every Err value, in order.
+     */
+    static partition<T, E extends Error>(
+        results: Iterable<Result<T, E>>
+    ): [T[], E[]] {
+        const oks: T[] = [];
+        const errs: E[] = [];
+
+        for (const result of results) {
+            if (result.isOk()) {
+                oks.push(result.unwrap());
+            } else {
+                errs.push(result.err().unwrap() as E);
+            }
+        }
+
+        return [oks, errs];
+    }
+
+    /**
+     * Rebuilds a Result from its serialized form, as produced by `toJSON`.
+     * Nested Results, Options, Eithers and errors are rebuilt as well.
+     * The contained value and error types are not checked.
+     *
+     * Example:
+     * ```
+     * const result = Result.fromJSON(JSON.parse(message), {
+     *   errors: [NotFoundError],
+     * });
+     * ```
+     * @param json - A parsed JSON value.
+     * @param options - Options for rebuilding errors.
+     * @returns Ok with the rebuilt Result, or Err if the value is not a serialized Result.
+     */
+    static fromJSON<T = unknown, E extends Error = Error>(
+        json: unknown,
+        options: FromJSONOptions = {}
+    ): Result<Result<T, E>, MalformedJSONError> {
+        return revive(json, "$", options).andThen((value) =>
+            Result.isResult(value)
+                ? Result.Ok(value as Result<T, E>)
+                : Result.Err(
+                      new MalformedJSONError(
+                          "Expected a serialized Result",
+                          "$"
+                      )
+                  )
+        );
+    }
+
+    /**
+     * Renders an error and its whole cause chain, including stack frames.
+     * Context layers added with `context` and `withContext` are labelled as such.
+     *
+     * Example:
+     * ```
+     * const config = loadConfig().context("loading user config");
+     *
+     * if (config.isErr()) {
+     *   console.error(Result.report(config.err().unwrap()));
+     *   // Context: loading user config
+     *   //     at ...
+     *   //   Caused by: NotFoundError: config.json does not exist
+     *   //       at ...
+     * }
+     * ```
+     * @param error - The error to report.
+     * @param options - `{ format: "json" }` to return a structured report instead of text.
+     * @returns The report as indented text, or as an `ErrorReport` object.
+     */
+    static report(error: unknown, options?: { format?: "text" }): string;
+    static report(error: unknown, options: { format: "json" }): ErrorReport;
+    static report(
+        error: unknown,
+        options?: ReportOptions
+    ): string | ErrorReport;
+    static report(
+        error: unknown,
+        options: ReportOptions = {}
+    ): string | ErrorReport {
+        const report = buildReport(error);
+
+        return options.format === "json"
+            ? report
+            : renderReport(report).join("\n");
+    }
+
+    /**
+     * Checks if a value is a Result. Unlike `instanceof`, this also recognizes Results
+     * created by another copy of teav or in another realm.
+     * @param value - The value to check.
+     * @returns true if the value is a Result, false otherwise.
+     */
+    static isResult(value: unknown): value is Result<unknown, Error> {
+        return (
+            typeof value === "object" &&
+            value !== null &&
+            (Reflect.has(value, SYM_OK) || Reflect.has(value, SYM_ERR))
+        );
     }
 
     /**
@@ -192,6 +804,26 @@ export class Result<T, E extends Error> {
             : (this as any);
     }
 
+    /**
+     * Wraps the Result's error in a `ContextError` describing what was being attempted.
+     * The original error is kept as the `cause` of the new error.
+     * @param message - A description of what was being attempted.
+     * @returns A new Result instance with the wrapped error.
+     */
+    context(message: string): Result<T, ContextError<E>> {
+        return this.withContext(() => message);
+    }
+
+    /**
+     * Wraps the Result's error in a `ContextError` describing what was being attempted.
+     * The message is only computed if the Result is Err.
+     * @param fn - A function returning a description of what was being attempted.
+     * @returns A new Result instance with the wrapped error.
+     */
+    withContext(fn: (error: E) => string): Result<T, ContextError<E>> {
+        return this.mapErr((error) => new ContextError(fn(error), error));
+    }
+
     /**
      * Transforms the Result's value using a function or returns a default value.
      * @param other - The default value to return if the Result is Err.
@@ -214,6 +846,18 @@ export class Result<T, E extends Error> {
             : other(this.err().unwrap() as E);
     }
 
+    /**
+     * Applies one of two handlers depending on whether the Result is Ok or Err.
+     * Both handlers must be provided.
+     * @param handlers - An object with an `Ok` handler for the value and an `Err` handler for the error.
+     * @returns The result of the handler that was applied.
+     */
+    match<U>(handlers: { Ok: (value: T) => U; Err: (error: E) => U }): U {
+        return this.isOk()
+            ? handlers.Ok(this.unwrap())
+            : handlers.Err(this.err().unwrap() as E);
+    }
+
     /**
      * Returns another Result if the original Result is Ok, otherwise returns the original Result.
      * @param res - Another Result to return if the original Result is Ok.
@@ -258,6 +902,63 @@ export class Result<T, E extends Error> {
         return this.isOk() ? this : fn();
     }
 
+    /**
+     * Recovers from tagged errors with a given tag. The handled errors are removed
+     * from the error type, and other errors are left untouched.
+     *
+     * Example:
+     * ```
+     * // Result<User | null, TimeoutError>
+     * const user = loadUser(id).catchTag("NotFound", () => Result.Ok(null));
+     * ```
+     * @param tag - The `_tag` of the errors to handle.
+     * @param handler - A function that takes the matching error and returns a Result.
+     * @returns The Result returned by handler if the error has the given tag, otherwise the original Result.
+     * @see TaggedError
+     */
+    catchTag<K extends ErrorTag<E>, U, F extends Error = never>(
+        tag: K,
+        handler: (error: Extract<E, { readonly _tag: K }>) => Result<U, F>
+    ): Result<T | U, Exclude<E, { readonly _tag: K }> | F> {
+        return this.catchTags({ [tag]: handler } as any) as any;
+    }
+
+    /**
+     * Recovers from tagged errors using one handler per tag. The handled errors are
+     * removed from the error type, and other errors are left untouched.
+     *
+     * Example:
+     * ```
+     * const user = loadUser(id).catchTags({
+     *   NotFound: () => Result.Ok(null),
+     *   Timeout: (error) => retryLater(error.ms),
+     * });
+     * ```
+     * @param handlers - An object mapping tags to functions that take the matching error and return a Result.
+     * @returns The Result returned by the matching handler, otherwise the original Result.
+     * @see TaggedError
+     */
+    catchTags<H extends Record<string, Result<unknown, Error>>>(
+        handlers: CatchTagsHandlers<E, H>
+    ): Result<
+        T | OkType<H[keyof H]>,
+        Exclude<E, { readonly _tag: keyof H }> | ErrType<H[keyof H]>
+    > {
+        if (this.isErr()) {
+            const error: any = this.err().unwrap();
+            const tag = error?._tag;
+
+            if (
+                typeof tag === "string" &&
+                Object.prototype.hasOwnProperty.call(handlers, tag)
+            ) {
+                return (handlers as any)[tag](error);
+            }
+        }
+
+        return this as any;
+    }
+
     /**
      * Unwraps the Result, returning the contained value, or throws if the Result is Err.
      * @returns The Ok value if the Result is Ok.
@@ -268,7 +969,11 @@ export class Result<T, E extends Error> {
             return this["value"];
         }
 
-        throw this.err().unwrap();
+        const error = this.err().unwrap();
+
+        fireUnwrapPanic("Err", error, error, this.unwrap);
+
+        throw error;
     }
 
     /**
@@ -300,13 +1005,54 @@ export class Result<T, E extends Error> {
 
         const value = this.unwrap();
 
-        if (value instanceof Result) {
+        if (Result.isResult(value)) {
             return value as any;
         }
 
         return this as any;
     }
 
+    /**
+     * Transposes a Result of an Option into an Option of a Result.
+     * Ok(None) is mapped to None, and Ok(Some(value)) and Err(error) to Some(Ok(value)) and Some(Err(error)).
+     * @returns An Option containing a Result.
+     */
+    transpose<U, F extends Error>(
+        this: Result<Option<U>, F>
+    ): Option<Result<U, F>> {
+        return this.isOk()
+            ? this.unwrap().map((value) => Result.Ok(value))
+            : Option.Some(this as any);
+    }
+
+    /**
+     * Combines two Results into one containing both Ok values as a tuple.
+     * @param other - Another Result.
+     * @returns Ok with both values if both Results are Ok, otherwise the first Err.
+     */
+    zip<U, F extends Error>(other: Result<U, F>): Result<[T, U], E | F> {
+        return this.zipWith(other, (a, b) => [a, b]);
+    }
+
+    /**
+     * Combines the Ok values of two Results using a function.
+     * @param other - Another Result.
+     * @param fn - A function combining both Ok values.
+     * @returns Ok with the combined value if both Results are Ok, otherwise the first Err.
+     */
+    zipWith<U, F extends Error, V>(
+        other: Result<U, F>,
+        fn: (a: T, b: U) => V
+    ): Result<V, E | F> {
+        if (this.isErr()) {
+            return this as any;
+        }
+
+        return other.isOk()
+            ? Result.Ok(fn(this.unwrap(), other.unwrap()))
+            : (other as any);
+    }
+
     /**
      * Converts the Result to an Option, containing the Ok value if present.
      * @returns An Option containing the Ok value or None if the Result is Err.
@@ -322,9 +1068,145 @@ export class Result<T, E extends Error> {
     err(): Option<E> {
         return this.isErr() ? Option.Some(this["value"]) : Option.None();
     }
+
+    /**
+     * Converts the Result to an `Either`, with the Err value on the left and the Ok value on the right.
+     * @returns A right containing the Ok value, or a left containing the Err value.
+     */
+    toEither(): Either<E, T> {
+        return Either.fromResult(this);
+    }
+
+    /**
+     * Converts the Result to an AsyncResult, allowing it to be chained with asynchronous operations.
+     * @returns An AsyncResult resolving to this Result.
+     */
+    toAsync(): AsyncResult<T, E> {
+        return AsyncResult.fromResult(this);
+    }
+
+    /**
+     * Converts the Result to a promise.
+     * @returns A promise that resolves to the Ok value, or rejects with the Err value.
+     */
+    toPromise(): Promise<T> {
+        return this.isOk()
+            ? Promise.resolve(this.unwrap())
+            : Promise.reject(this.err().unwrap());
+    }
+
+    /**
+     * Converts the Result to its serialized form. Errors are serialized with their
+     * name, message, stack and `cause` chain.
+     * @returns `{ "$teav": "Ok", "value": value }` or `{ "$teav": "Err", "value": error }`.
+     */
+    toJSON(): ResultJSON<T> {
+        return this.isOk()
+            ? { $teav: "Ok", value: this.unwrap() }
+            : { $teav: "Err", value: serializeError(this.err().unwrap() as E) };
+    }
+
+    /**
+     * Checks if two Results are equal: both Ok with equal values, or both Err with equal errors.
+     * @param other - Another Result.
+     * @param eq - A function comparing the Ok values. Defaults to structural equality.
+     * @param eqErr - A function comparing the errors. Defaults to structural equality.
+     * @returns true if the Results are equal, false otherwise.
+     */
+    equals(
+        other: Result<T, E>,
+        eq: (a: T, b: T) => boolean = deepEqual,
+        eqErr: (a: E, b: E) => boolean = deepEqual
+    ): boolean {
+        if (this.isOk() && other.isOk()) {
+            return eq(this.unwrap(), other.unwrap());
+        }
+
+        return (
+            this.isErr() &&
+            other.isErr() &&
+            eqErr(this.err().unwrap() as E, other.err().unwrap() as E)
+        );
+    }
+
+    /**
+     * Orders two Results, Err before Ok. Oks are ordered by their values, and Errs
+     * by their errors. Can be passed to `Array.prototype.sort` as `(a, b) => a.compare(b, cmp)`.
+     * @param other - Another Result.
+     * @param cmp - A function ordering the Ok values, returning a negative number, zero or a positive number.
+     * @param cmpErr - A function ordering the errors. Defaults to considering every error equal.
+     * @returns A negative number if this Result comes first, a positive number if other comes first, otherwise zero.
+     */
+    compare(
+        other: Result<T, E>,
+        cmp: (a: T, b: T) => number,
+        cmpErr: (a: E, b: E) => number = () => 0
+    ): number {
+        if (this.isOk() && other.isOk()) {
+            return cmp(this.unwrap(), other.unwrap());
+        }
+
+        if (this.isErr() && other.isErr()) {
+            return cmpErr(this.err().unwrap() as E, other.err().unwrap() as E);
+        }
+
+        return Number(this.isOk()) - Number(other.isOk());
+    }
+
+    /**
+     * Computes a stable hash of the Result. Structurally equal Results have the same hash.
+     * @returns A 32-bit unsigned integer.
+     */
+    hash(): number {
+        return hashValue(this);
+    }
+
+    /**
+     * Formats the Result for display, such as `Ok(3)` or `Err(NotFoundError: user 42)`.
+     * Objects and arrays are elided; use `util.inspect` to show them in full.
+     * @returns The formatted Result.
+     */
+    toString(): string {
+        return this.isOk()
+            ? formatVariant("Ok", this.unwrap())
+            : formatVariant("Err", this.err().unwrap());
+    }
+
+    get [Symbol.toStringTag](): string {
+        return this.isOk() ? "Ok" : "Err";
+    }
+
+    /**
+     * Formats the Result for `util.inspect` and `console.log`, respecting their depth and colors.
+     */
+    [SYM_INSPECT](
+        depth: number,
+        options: InspectOptions,
+        inspect?: InspectFunction
+    ): string {
+        return this.isOk()
+            ? inspectVariant("Ok", [this.unwrap()], depth, options, inspect)
+            : inspectVariant(
+                  "Err",
+                  [this.err().unwrap()],
+                  depth,
+                  options,
+                  inspect
+              );
+    }
+
+    /**
+     * Iterates over the Ok value: once if the Result is Ok, and not at all if it is Err.
+     * Also allows the Result to be unwrapped with `yield*` inside `Result.gen`.
+     */
+    [Symbol.iterator](): VariantIterator<ResultYield<T, E>, T> {
+        return this.isOk()
+            ? variantIterator(this, true, this.unwrap())
+            : variantIterator(this, false);
+    }
 }
 
-class Ok<T> extends Result<T, never> {
+export class Ok<T> extends Result<T, never> {
     readonly [SYM_OK] = true;
 
     constructor(private readonly value: T) {
@@ -352,7 +1234,7 @@ class Ok<T> extends Result<T, never> {
     }
 }
 
-class Err<E extends Error> extends Result<never, E> {
+export class Err<E extends Error> extends Result<never, E> {
     readonly [SYM_ERR] = true;
 
     constructor(private readonly value: E) {
@@ -368,6 +1250,8 @@ class Err<E extends Error> extends Result<never, E> {
     }
 
     unwrap(): never {
+        fireUnwrapPanic("Err", this.value, this.value, this.unwrap);
+
         throw this.value;
     }
 
@@ -0,0 +1,80 @@
+import test from "ava";
+import { testProp, fc } from "@fast-check/ava";
+import { Result } from "./result";
+import { ValidationError, Validated } from "./validated";
+
+class NameError extends Error {}
+class AgeError extends Error {}
+
+const checkName = (name: string): Result<string, NameError> =>
+    name.length > 0 ? Result.Ok(name) : Result.Err(new NameError("name"));
+
+const checkAge = (age: number): Result<number, AgeError> =>
+    age >= 0 ? Result.Ok(age) : Result.Err(new AgeError("age"));
+
+testProp(
+    "all accumulates every error",
+    [fc.string(), fc.integer()],
+    (t, name, age) => {
+        const validated = Validated.all({
+            name: checkName(name),
+            age: checkAge(age),
+        });
+
+        const expected = [
+            ...(name.length > 0 ? [] : ["name"]),
+            ...(age >= 0 ? [] : ["age"]),
+        ];
+
+        if (expected.length === 0) {
+            t.deepEqual(validated.unwrap(), { name, age });
+        } else {
+            t.deepEqual(
+                validated.errors().map((error) => error.message),
+                expected
+            );
+        }
+    }
+);
+
+test("zip", (t) => {
+    const valid = Validated.Valid(1).zip(Validated.Valid("a"));
+    const invalid = Validated.fromResult(checkName(""))
+        .zip(Validated.fromResult(checkAge(-1)))
+        .zip(Validated.Invalid(new Error("other")));
+
+    t.deepEqual(valid.unwrap(), [1, "a"]);
+    t.deepEqual(
+        invalid.errors().map((error) => error.message),
+        ["name", "age", "other"]
+    );
+});
+
+test("mapErr maps every error", (t) => {
+    const invalid = Validated.all([checkName(""), checkAge(-1)]).mapErr(
+        (error) => new TypeError(error.message)
+    );
+
+    t.true(invalid.errors().every((error) => error instanceof TypeError));
+    t.is(invalid.errors().length, 2);
+});
+
+test("converts to a Result with an AggregateError", (t) => {
+    const result: Result<
+        [string, number],
+        ValidationError<NameError | AgeError>
+    > = Result.validate([checkName(""), checkAge(-1)]);
+    const error = result.err().unwrap();
+
+    t.true(error instanceof AggregateError);
+    t.is(error.errors.length, 2);
+    t.true(error.errors[0] instanceof NameError);
+    t.true(error.errors[1] instanceof AgeError);
+    t.deepEqual(Result.validate([checkName("a"), checkAge(1)]).unwrap(), [
+        "a",
+        1,
+    ]);
+    t.throws(() => Validated.Invalid(new NameError()).unwrap(), {
+        instanceOf: ValidationError,
+    });
+});
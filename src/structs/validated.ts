@@ -0,0 +1,290 @@
+import { SYM_INVALID, SYM_VALID } from "../constants";
+import { Result } from "./result";
+
+/**
+ * An array containing at least one element.
+ */
+export type NonEmptyArray<T> = [T, ...T[]];
+
+type ResultOrValidatedValue<V> =
+    V extends Validated<infer T, Error>
+        ? T
+        : V extends Result<infer T, Error>
+          ? T
+          : never;
+type ResultOrValidatedError<V> =
+    V extends Validated<unknown, infer E>
+        ? E
+        : V extends Result<unknown, infer E>
+          ? E
+          : never;
+type Values<C> = C extends readonly unknown[] ? C[number] : C[keyof C];
+
+/**
+ * The error produced when an invalid `Validated` is converted to a `Result`.
+ * It is an `AggregateError` whose `errors` contain every accumulated failure.
+ */
+export class ValidationError<E extends Error> extends AggregateError {
+    declare readonly errors: NonEmptyArray<E>;
+
+    constructor(errors: NonEmptyArray<E>, message?: string) {
+        super(
+            errors,
+            message ??
+                `Validation failed with ${errors.length} error${errors.length === 1 ? "" : "s"}`
+        );
+
+        this.name = "ValidationError";
+    }
+}
+
+/**
+ * The `Validated` class represents the outcome of one or more independent checks.
+ * Unlike `Result`, which stops at the first `Err`, combining `Validated` instances
+ * accumulates every failure into a non-empty list of errors. This makes it suitable
+ * for form and configuration validation, where every problem should be reported at once.
+ *
+ * `Validated` instances are usually built from `Result`s returned by individual checks,
+ * and converted back to a `Result` once every check has been combined.
+ *
+ * Example:
+ * ```
+ * const user = Validated.all({
+ *   name: checkName(input.name),
+ *   age: checkAge(input.age),
+ *   email: checkEmail(input.email),
+ * }).toResult();
+ *
+ * if (user.isErr()) {
+ *   for (const error of user.err().unwrap().errors) {
+ *     console.error(error.message);
+ *   }
+ * }
+ * ```
+ */
+export class Validated<T, E extends Error> {
+    protected constructor() {}
+
+    /**
+     * Creates a Validated instance representing a successful check.
+     * @param value - The validated value.
+     * @returns A Validated instance representing success.
+     */
+    static Valid<T>(value: T): Valid<T> {
+        return new Valid(value);
+    }
+
+    /**
+     * Creates a Validated instance representing one or more failed checks.
+     * @param errors - The error, or a non-empty list of errors.
+     * @returns A Validated instance representing the failures.
+     */
+    static Invalid<E extends Error>(errors: E | NonEmptyArray<E>): Invalid<E> {
+        return new Invalid(Array.isArray(errors) ? errors : [errors]);
+    }
+
+    /**
+     * Creates a Validated instance from a Result.
+     * @param result - The Result to convert.
+     * @returns Valid with the Ok value, or Invalid with the Err value.
+     */
+    static fromResult<T, E extends Error>(
+        result: Result<T, E>
+    ): Validated<T, E> {
+        return result.isOk()
+            ? this.Valid(result.unwrap())
+            : this.Invalid(result.err().unwrap() as E);
+    }
+
+    /**
+     * Combines a tuple, array or record of Validated instances or Results into a single
+     * Validated instance of the same shape, accumulating every error.
+     * @param checks - A tuple, array or record of Validated instances or Results.
+     * @returns Valid with the values in the same shape, or Invalid with every error.
+     */
+    static all<
+        const C extends
+            | ReadonlyArray<Validated<unknown, Error> | Result<unknown, Error>>
+            | Readonly<
+                  Record<
+                      string,
+                      Validated<unknown, Error> | Result<unknown, Error>
+                  >
+              >,
+    >(
+        checks: C
+    ): Validated<
+        { -readonly [K in keyof C]: ResultOrValidatedValue<C[K]> },
+        ResultOrValidatedError<Values<C>>
+    > {
+        const values: any = Array.isArray(checks) ? [] : {};
+        const errors: Error[] = [];
+
+        for (const [key, check] of Object.entries(checks)) {
+            const validated = Result.isResult(check)
+                ? this.fromResult(check)
+                : check;
+
+            if (validated.isValid()) {
+                values[key] = validated.unwrap();
+            } else {
+                errors.push(...validated.errors());
+            }
+        }
+
+        return errors.length > 0
+            ? this.Invalid(errors as NonEmptyArray<any>)
+            : this.Valid(values);
+    }
+
+    /**
+     * Checks if the Validated instance is Invalid.
+     * @returns true if the Validated instance is Invalid, false otherwise.
+     */
+    isInvalid(): this is Invalid<E> {
+        return Reflect.has(this, SYM_INVALID);
+    }
+
+    /**
+     * Checks if the Validated instance is Valid.
+     * @returns true if the Validated instance is Valid, false otherwise.
+     */
+    isValid(): this is Valid<T> {
+        return Reflect.has(this, SYM_VALID);
+    }
+
+    /**
+     * Transforms the valid value using a provided function.
+     * @param fn - A function to apply to the valid value.
+     * @returns A new Validated instance with the transformed value.
+     */
+    map<U>(fn: (value: T) => U): Validated<U, E> {
+        return this.isValid()
+            ? Validated.Valid(fn(this.unwrap()))
+            : (this as any);
+    }
+
+    /**
+     * Transforms every accumulated error using a provided function.
+     * @param fn - A function to apply to each error.
+     * @returns A new Validated instance with the transformed errors.
+     */
+    mapErr<U extends Error>(fn: (error: E) => U): Validated<T, U> {
+        return this.isInvalid()
+            ? Validated.Invalid(this.errors().map(fn) as NonEmptyArray<U>)
+            : (this as any);
+    }
+
+    /**
+     * Combines two Validated instances into one containing both values as a tuple.
+     * If either is Invalid, the errors of both are accumulated.
+     * @param other - Another Validated instance.
+     * @returns Valid with both values, or Invalid with the errors of both.
+     */
+    zip<U, F extends Error>(other: Validated<U, F>): Validated<[T, U], E | F> {
+        return this.zipWith(other, (a, b) => [a, b]);
+    }
+
+    /**
+     * Combines two Validated instances using a function.
+     * If either is Invalid, the errors of both are accumulated.
+     * @param other - Another Validated instance.
+     * @param fn - A function combining both valid values.
+     * @returns Valid with the combined value, or Invalid with the errors of both.
+     */
+    zipWith<U, F extends Error, V>(
+        other: Validated<U, F>,
+        fn: (a: T, b: U) => V
+    ): Validated<V, E | F> {
+        if (this.isValid() && other.isValid()) {
+            return Validated.Valid(fn(this.unwrap(), other.unwrap()));
+        }
+
+        return Validated.Invalid([
+            ...this.errors(),
+            ...other.errors(),
+        ] as NonEmptyArray<E | F>);
+    }
+
+    /**
+     * Returns the accumulated errors.
+     * @returns Every error if the Validated instance is Invalid, otherwise an empty array.
+     */
+    errors(): E[] {
+        return this.isInvalid() ? this["errorList"] : [];
+    }
+
+    /**
+     * Unwraps the valid value, or throws a `ValidationError` if the Validated instance is Invalid.
+     * @returns The valid value.
+     * @throws ValidationError containing every accumulated error.
+     */
+    unwrap(): T {
+        if (this.isValid()) {
+            return this["value"];
+        }
+
+        throw new ValidationError(this.errors() as NonEmptyArray<E>);
+    }
+
+    /**
+     * Unwraps the valid value, or returns a default value if the Validated instance is Invalid.
+     * @param other - The default value to return if the Validated instance is Invalid.
+     * @returns The valid value, otherwise other.
+     */
+    unwrapOr(other: T): T {
+        return this.isValid() ? this.unwrap() : other;
+    }
+
+    /**
+     * Converts the Validated instance to a Result.
+     * @returns Ok with the valid value, or Err with a `ValidationError` containing every accumulated error.
+     */
+    toResult(): Result<T, ValidationError<E>> {
+        return this.isValid()
+            ? Result.Ok(this.unwrap())
+            : Result.Err(
+                  new ValidationError(this.errors() as NonEmptyArray<E>)
+              );
+    }
+}
+
+export class Valid<T> extends Validated<T, never> {
+    readonly [SYM_VALID] = true;
+
+    constructor(private readonly value: T) {
+        super();
+    }
+
+    isInvalid(): false {
+        return false;
+    }
+
+    isValid(): true {
+        return true;
+    }
+
+    unwrap(): T {
+        return this.value;
+    }
+}
+
+export class Invalid<E extends Error> extends Validated<never, E> {
+    readonly [SYM_INVALID] = true;
+
+    constructor(private readonly errorList: NonEmptyArray<E>) {
+        super();
+    }
+
+    isInvalid(): true {
+        return true;
+    }
+
+    isValid(): false {
+        return false;
+    }
+
+    errors(): NonEmptyArray<E> {
+        return this.errorList;
+    }
+}
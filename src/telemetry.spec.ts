@@ -0,0 +1,71 @@
+import test from "ava";
+import { clearHooks, registerHooks } from "./hooks";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+import { Attributes, eventHooks, spanHooks } from "./telemetry";
+
+interface RecordedEvent {
+    name: string;
+    attributes?: Attributes;
+}
+
+class InMemoryExporter {
+    readonly events: RecordedEvent[] = [];
+
+    addEvent(name: string, attributes?: Attributes) {
+        this.events.push({ name, attributes });
+    }
+
+    emit(event: RecordedEvent) {
+        this.events.push(event);
+    }
+}
+
+test.afterEach.always(() => clearHooks());
+
+test.serial("spanHooks adds events to the current span", (t) => {
+    const span = new InMemoryExporter();
+
+    registerHooks(spanHooks(() => span));
+
+    t.throws(() => Result.Err(new RangeError("out of range")).unwrap());
+
+    t.deepEqual(span.events, [
+        {
+            name: "teav.err",
+            attributes: {
+                "exception.type": "RangeError",
+                "exception.message": "out of range",
+            },
+        },
+        {
+            name: "teav.unwrap_panic",
+            attributes: {
+                "teav.variant": "Err",
+                "exception.type": "RangeError",
+                "exception.message": "out of range",
+            },
+        },
+    ]);
+});
+
+test.serial("spanHooks ignores events without a current span", (t) => {
+    registerHooks(spanHooks(() => undefined));
+
+    t.notThrows(() => Result.Err(new Error()));
+});
+
+test.serial("eventHooks emits events with call sites", (t) => {
+    const logger = new InMemoryExporter();
+
+    registerHooks(eventHooks(logger), { captureCallSite: true });
+
+    t.throws(() => Option.None().expect("missing"));
+
+    const [event] = logger.events;
+
+    t.is(event.name, "teav.unwrap_panic");
+    t.is(event.attributes?.["teav.variant"], "None");
+    t.is(event.attributes?.["exception.message"], "missing");
+    t.regex(String(event.attributes?.["code.stacktrace"]), /telemetry\.spec/);
+});
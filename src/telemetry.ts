@@ -0,0 +1,104 @@
+import {
+    CallSite,
+    ErrEvent,
+    FromCaughtEvent,
+    Hooks,
+    UnwrapPanicEvent,
+} from "./hooks";
+
+/**
+ * The value of a telemetry attribute.
+ */
+export type AttributeValue = string | number | boolean;
+
+/**
+ * The attributes of a telemetry event.
+ */
+export type Attributes = Record<string, AttributeValue>;
+
+/**
+ * The part of an OpenTelemetry `Span` used by `spanHooks`.
+ */
+export interface SpanLike {
+    addEvent(name: string, attributes?: Attributes): unknown;
+}
+
+/**
+ * The part of an OpenTelemetry event logger used by `eventHooks`.
+ */
+export interface EventLoggerLike {
+    emit(event: { name: string; attributes?: Attributes }): unknown;
+}
+
+function exceptionAttributes(error: unknown): Attributes {
+    return error instanceof Error
+        ? { "exception.type": error.name, "exception.message": error.message }
+        : {
+              "exception.type": typeof error,
+              "exception.message": String(error),
+          };
+}
+
+function callSiteAttributes(callSite: CallSite | undefined): Attributes {
+    return callSite === undefined
+        ? {}
+        : { "code.stacktrace": callSite.frames.join("\n") };
+}
+
+function telemetryHooks(
+    record: (name: string, attributes: Attributes) => void
+): Hooks {
+    return {
+        onErr: ({ error, callSite }: ErrEvent) =>
+            record("teav.err", {
+                ...exceptionAttributes(error),
+                ...callSiteAttributes(callSite),
+            }),
+        onUnwrapPanic: ({ variant, thrown, callSite }: UnwrapPanicEvent) =>
+            record("teav.unwrap_panic", {
+                "teav.variant": variant,
+                ...exceptionAttributes(thrown),
+                ...callSiteAttributes(callSite),
+            }),
+        onFromCaught: ({ error, rethrown, callSite }: FromCaughtEvent) =>
+            record("teav.from_caught", {
+                "teav.rethrown": rethrown,
+                ...exceptionAttributes(error),
+                ...callSiteAttributes(callSite),
+            }),
+    };
+}
+
+/**
+ * Creates hooks that add an event to the current span for every failure.
+ * The events are named `teav.err`, `teav.unwrap_panic` and `teav.from_caught`,
+ * and carry the OpenTelemetry `exception.type` and `exception.message` attributes,
+ * as well as `code.stacktrace` when call sites are captured.
+ *
+ * Example:
+ * ```
+ * import { trace } from "@opentelemetry/api";
+ *
+ * registerHooks(spanHooks(() => trace.getActiveSpan()));
+ * ```
+ * @param getSpan - A function returning the current span, if any.
+ * @returns Hooks to pass to `registerHooks`.
+ */
+export function spanHooks(getSpan: () => SpanLike | undefined): Hooks {
+    return telemetryHooks((name, attributes) =>
+        getSpan()?.addEvent(name, attributes)
+    );
+}
+
+/**
+ * Creates hooks that emit an event for every failure. The events are the same
+ * as the ones added by `spanHooks`.
+ * @param logger - The event logger to emit the events with.
+ * @returns Hooks to pass to `registerHooks`.
+ * @see spanHooks
+ */
+export function eventHooks(logger: EventLoggerLike): Hooks {
+    return telemetryHooks((name, attributes) =>
+        logger.emit({ name, attributes })
+    );
+}
@@ -0,0 +1,7 @@
+/**
+ * Resolves to `true` only if both types are identical, for type-level assertions in specs.
+ */
+export type Equal<A, B> =
+    (<V>() => V extends A ? 1 : 2) extends <V>() => V extends B ? 1 : 2
+        ? true
+        : false;
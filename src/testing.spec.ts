@@ -0,0 +1,120 @@
+import test from "ava";
+import { Either } from "./structs/either";
+import { Option } from "./structs/option";
+import { Result } from "./structs/result";
+import {
+    AssertionError,
+    assertErrInstanceOf,
+    assertLeft,
+    assertNone,
+    assertOk,
+    assertSome,
+    matchers,
+} from "./testing";
+
+class NotFoundError extends Error {
+    name = "NotFoundError";
+
+    constructor(readonly id: string) {
+        super(`${id} was not found`);
+    }
+}
+
+const findUser = (id: string): Result<string, NotFoundError | TypeError> =>
+    id === "1" ? Result.Ok("Ada") : Result.Err(new NotFoundError(id));
+
+test("assertions narrow types", (t) => {
+    const found = findUser("1");
+    assertOk(t, found);
+    t.is(found.unwrap().toUpperCase(), "ADA");
+
+    const missing = findUser("2");
+    assertErrInstanceOf(t, missing, NotFoundError);
+    t.is(missing.err().unwrap().id, "2");
+
+    const nickname = Option.Some("ada");
+    assertSome(t, nickname);
+    t.is(nickname.unwrap(), "ada");
+
+    const none: Option<string> = Option.None();
+    assertNone(t, none);
+
+    const denied: Either<string, number> = Either.Left("denied");
+    assertLeft(t, denied);
+    t.is(denied.unwrapLeft(), "denied");
+});
+
+test("failing assertions print the actual variant and value", (t) => {
+    const messages: string[] = [];
+    const context = { fail: (message?: string) => messages.push(message!) };
+
+    t.throws(() => assertOk(context, findUser("2")), {
+        instanceOf: AssertionError,
+    });
+    t.throws(() => assertErrInstanceOf(context, findUser("2"), TypeError));
+    t.throws(() => assertSome(context, Option.None()));
+    t.throws(() => assertLeft(context, Either.Right({ id: 1 })));
+
+    t.regex(messages[0], /^Expected Ok, but got Err\(NotFoundError: 2 was/);
+    t.regex(
+        messages[1],
+        /^Expected Err with TypeError, but got Err\(NotFoundError: 2 was/
+    );
+    t.is(messages[2], "Expected Some, but got None");
+    t.is(messages[3], "Expected Left, but got Right({ id: 1 })");
+});
+
+test("matchers", (t) => {
+    const context = { isNot: false };
+
+    t.true(matchers.toBeOk.call(context, Result.Ok({ id: 1 }), { id: 1 }).pass);
+    t.false(matchers.toBeOk.call(context, Result.Ok(1), 2).pass);
+    t.true(matchers.toBeOk.call(context, Result.Ok(1)).pass);
+    t.false(matchers.toBeOk.call(context, 1).pass);
+    t.true(
+        matchers.toBeErrWith.call(context, findUser("2"), NotFoundError).pass
+    );
+    t.true(matchers.toBeErrWith.call(context, findUser("2"), /not found/).pass);
+    t.true(
+        matchers.toBeErrWith.call(context, findUser("2"), "2 was not found")
+            .pass
+    );
+    t.false(matchers.toBeErrWith.call(context, findUser("1"), Error).pass);
+    t.true(matchers.toBeSome.call(context, Option.Some([1]), [1]).pass);
+    t.true(matchers.toBeNone.call(context, Option.None()).pass);
+    t.false(matchers.toBeNone.call(context, Option.Some(1)).pass);
+    t.true(matchers.toBeLeft.call(context, Either.Left("x"), "x").pass);
+    t.true(matchers.toBeRight.call(context, Either.Right(1)).pass);
+});
+
+test("matcher messages print the actual variant and value", (t) => {
+    t.is(
+        matchers.toBeSome.call({ isNot: false }, Option.None(), 1).message(),
+        "Expected Some(1), but got None"
+    );
+    t.is(
+        matchers.toBeRight.call({ isNot: true }, Either.Right("x")).message(),
+        'Expected not Right, but got Right("x")'
+    );
+    t.is(
+        matchers.toBeErrWith.call({}, Result.Ok(1), NotFoundError).message(),
+        "Expected Err with NotFoundError, but got Ok(1)"
+    );
+    t.is(
+        matchers.toBeOk
+            .call({ isNot: false }, Result.Ok({ id: 1, tags: ["a"] }), {
+                id: 2,
+            })
+            .message(),
+        'Expected Ok({ id: 2 }), but got Ok({ id: 1, tags: [ "a" ] })'
+    );
+    t.is(
+        matchers.toBeSome
+            .call(
+                { isNot: true },
+                Option.Some([[[[1]]], new Map([["a", new Set([1])]])])
+            )
+            .message(),
+        'Expected not Some, but got Some([ [ [ … ] ], Map { "a" => Set { … } } ])'
+    );
+});
@@ -0,0 +1,437 @@
+import { deepEqual } from "./equality";
+import { Either, Left, Right } from "./structs/either";
+import { None, Option, Some } from "./structs/option";
+import { Err, ErrorClass, Ok, Result } from "./structs/result";
+
+/**
+ * The part of a test context used by the assertions, such as AVA's `t`.
+ */
+export interface AssertionContext {
+    fail(message?: string): unknown;
+    pass?(message?: string): unknown;
+}
+
+/**
+ * The error thrown when an assertion fails and the test context's `fail` returns.
+ */
+export class AssertionError extends Error {
+    constructor(message: string) {
+        super(message);
+
+        this.name = "AssertionError";
+    }
+}
+
+const MAX_DEPTH = 3;
+
+// Prints values in failure messages like `util.inspect`, which is not available
+// outside of Node.js. Nesting deeper than `MAX_DEPTH` is elided.
+function describe(value: unknown, depth = 0): string {
+    const nested = (inner: unknown) => describe(inner, depth + 1);
+
+    if (typeof value === "string") {
+        return JSON.stringify(value);
+    }
+
+    if (typeof value === "bigint") {
+        return `${value}n`;
+    }
+
+    if (typeof value === "function") {
+        return `[Function${value.name ? ` ${value.name}` : ""}]`;
+    }
+
+    if (typeof value !== "object" || value === null) {
+        return String(value);
+    }
+
+    if (value instanceof Error) {
+        return `${value.name}: ${value.message}`;
+    }
+
+    if (Result.isResult(value)) {
+        return value.isOk()
+            ? `Ok(${nested(value.unwrap())})`
+            : `Err(${nested(value.err().unwrap())})`;
+    }
+
+    if (Option.isOption(value)) {
+        return value.isSome() ? `Some(${nested(value.unwrap())})` : "None";
+    }
+
+    if (Either.isEither(value)) {
+        return value.isLeft()
+            ? `Left(${nested(value.unwrapLeft())})`
+            : `Right(${nested(value.unwrapRight())})`;
+    }
+
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+
+    if (Array.isArray(value)) {
+        if (value.length === 0) {
+            return "[]";
+        }
+
+        return depth >= MAX_DEPTH
+            ? "[ … ]"
+            : `[ ${value.map(nested).join(", ")} ]`;
+    }
+
+    if (value instanceof Map || value instanceof Set) {
+        const name = value instanceof Map ? "Map" : "Set";
+
+        if (value.size === 0) {
+            return `${name} {}`;
+        }
+
+        const entries =
+            value instanceof Map
+                ? [...value].map(([k, v]) => `${nested(k)} => ${nested(v)}`)
+                : [...value].map(nested);
+
+        return depth >= MAX_DEPTH
+            ? `${name} { … }`
+            : `${name} { ${entries.join(", ")} }`;
+    }
+
+    const keys = Object.keys(value);
+    const name = value.constructor?.name;
+    const prefix = name === undefined || name === "Object" ? "" : `${name} `;
+
+    if (keys.length === 0) {
+        return `${prefix}{}`;
+    }
+
+    if (depth >= MAX_DEPTH) {
+        return `${prefix}{ … }`;
+    }
+
+    const entries = keys.map(
+        (key) =>
+            `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)}: ${nested((value as Record<string, unknown>)[key])}`
+    );
+
+    return `${prefix}{ ${entries.join(", ")} }`;
+}
+
+function check(
+    t: AssertionContext,
+    passed: boolean,
+    message: () => string
+): void {
+    if (passed) {
+        t.pass?.();
+
+        return;
+    }
+
+    t.fail(message());
+
+    throw new AssertionError(message());
+}
+
+/**
+ * Asserts that a Result is Ok, narrowing its type.
+ * @param t - The test context.
+ * @param result - The Result to check.
+ * @throws AssertionError if the Result is Err.
+ */
+export function assertOk<T, E extends Error>(
+    t: AssertionContext,
+    result: Result<T, E>
+): asserts result is Ok<T> {
+    check(
+        t,
+        Result.isResult(result) && result.isOk(),
+        () => `Expected Ok, but got ${describe(result)}`
+    );
+}
+
+/**
+ * Asserts that a Result is Err, narrowing its type.
+ * @param t - The test context.
+ * @param result - The Result to check.
+ * @throws AssertionError if the Result is Ok.
+ */
+export function assertErr<T, E extends Error>(
+    t: AssertionContext,
+    result: Result<T, E>
+): asserts result is Err<E> {
+    check(
+        t,
+        Result.isResult(result) && result.isErr(),
+        () => `Expected Err, but got ${describe(result)}`
+    );
+}
+
+/**
+ * Asserts that a Result is Err with an instance of an error class, narrowing its type.
+ * @param t - The test context.
+ * @param result - The Result to check.
+ * @param errorClass - The expected class of the error.
+ * @throws AssertionError if the Result is Ok, or if its error is not an instance of errorClass.
+ */
+export function assertErrInstanceOf<T, E extends Error, C extends ErrorClass>(
+    t: AssertionContext,
+    result: Result<T, E>,
+    errorClass: C
+): asserts result is Err<E & InstanceType<C>> {
+    check(
+        t,
+        Result.isResult(result) &&
+            result.isErr() &&
+            result.err().unwrap() instanceof errorClass,
+        () =>
+            `Expected Err with ${errorClass.name}, but got ${describe(result)}`
+    );
+}
+
+/**
+ * Asserts that an Option is Some, narrowing its type.
+ * @param t - The test context.
+ * @param option - The Option to check.
+ * @throws AssertionError if the Option is None.
+ */
+export function assertSome<T>(
+    t: AssertionContext,
+    option: Option<T>
+): asserts option is Some<T> {
+    check(
+        t,
+        Option.isOption(option) && option.isSome(),
+        () => `Expected Some, but got ${describe(option)}`
+    );
+}
+
+/**
+ * Asserts that an Option is None, narrowing its type.
+ * @param t - The test context.
+ * @param option - The Option to check.
+ * @throws AssertionError if the Option is Some.
+ */
+export function assertNone<T>(
+    t: AssertionContext,
+    option: Option<T>
+): asserts option is None {
+    check(
+        t,
+        Option.isOption(option) && option.isNone(),
+        () => `Expected None, but got ${describe(option)}`
+    );
+}
+
+/**
+ * Asserts that an `Either` is left, narrowing its type.
+ * @param t - The test context.
+ * @param either - The `Either` to check.
+ * @throws AssertionError if the `Either` is right.
+ */
+export function assertLeft<L, R>(
+    t: AssertionContext,
+    either: Either<L, R>
+): asserts either is Left<L> {
+    check(
+        t,
+        Either.isEither(either) && either.isLeft(),
+        () => `Expected Left, but got ${describe(either)}`
+    );
+}
+
+/**
+ * Asserts that an `Either` is right, narrowing its type.
+ * @param t - The test context.
+ * @param either - The `Either` to check.
+ * @throws AssertionError if the `Either` is left.
+ */
+export function assertRight<L, R>(
+    t: AssertionContext,
+    either: Either<L, R>
+): asserts either is Right<R> {
+    check(
+        t,
+        Either.isEither(either) && either.isRight(),
+        () => `Expected Right, but got ${describe(either)}`
+    );
+}
+
+/**
+ * The expected error of `toBeErrWith`: an error class, a message, a pattern
+ * matching the message, or an error that is structurally equal.
+ */
+export type ExpectedError = ErrorClass | string | RegExp | Error;
+
+/**
+ * The result of a matcher, as expected by `expect.extend`.
+ */
+export interface MatcherResult {
+    pass: boolean;
+    message: () => string;
+}
+
+/**
+ * The part of the matcher context used by the matchers.
+ */
+export interface MatcherContext {
+    isNot?: boolean;
+}
+
+/**
+ * The matchers added by `expect.extend(matchers)`, for use in type augmentations.
+ *
+ * Example:
+ * ```
+ * declare module "vitest" {
+ *   interface Assertion<T> extends TeavMatchers<T> {}
+ * }
+ * ```
+ */
+export interface TeavMatchers<R = unknown> {
+    toBeOk(expected?: unknown): R;
+    toBeErrWith(expected: ExpectedError): R;
+    toBeSome(expected?: unknown): R;
+    toBeNone(): R;
+    toBeLeft(expected?: unknown): R;
+    toBeRight(expected?: unknown): R;
+}
+
+function matchesError(error: unknown, expected: ExpectedError): boolean {
+    if (typeof expected === "function") {
+        return error instanceof expected;
+    }
+
+    if (typeof expected === "string") {
+        return error instanceof Error && error.message.includes(expected);
+    }
+
+    if (expected instanceof RegExp) {
+        return error instanceof Error && expected.test(error.message);
+    }
+
+    return deepEqual(error, expected);
+}
+
+function describeExpected(expected: ExpectedError): string {
+    return typeof expected === "function" ? expected.name : describe(expected);
+}
+
+function matchVariant(
+    context: MatcherContext,
+    received: unknown,
+    variant: string,
+    value: [] | [unknown],
+    actual: [] | [unknown] | undefined
+): MatcherResult {
+    const pass =
+        actual !== undefined &&
+        (value.length === 0 ||
+            (actual.length === 1 && deepEqual(actual[0], value[0])));
+    const expected =
+        value.length === 0 ? variant : `${variant}(${describe(value[0])})`;
+
+    return {
+        pass,
+        message: () =>
+            `Expected ${context.isNot ? "not " : ""}${expected}, but got ${describe(received)}`,
+    };
+}
+
+/**
+ * Matchers for Jest and Vitest, to be registered with `expect.extend(matchers)`.
+ * Matchers that take an expected value compare it structurally with the contained value.
+ *
+ * Example:
+ * ```
+ * expect(parse("42")).toBeOk(42);
+ * expect(parse("x")).toBeErrWith(ParseError);
+ * expect(find(id)).toBeNone();
+ * ```
+ */
+export const matchers = {
+    toBeOk(
+        this: MatcherContext,
+        received: unknown,
+        ...expected: [] | [unknown]
+    ): MatcherResult {
+        return matchVariant(
+            this,
+            received,
+            "Ok",
+            expected,
+            Result.isResult(received) && received.isOk()
+                ? [received.unwrap()]
+                : undefined
+        );
+    },
+    toBeErrWith(
+        this: MatcherContext,
+        received: unknown,
+        expected: ExpectedError
+    ): MatcherResult {
+        const pass =
+            Result.isResult(received) &&
+            received.isErr() &&
+            matchesError(received.err().unwrap(), expected);
+
+        return {
+            pass,
+            message: () =>
+                `Expected ${this.isNot ? "not " : ""}Err with ${describeExpected(expected)}, but got ${describe(received)}`,
+        };
+    },
+    toBeSome(
+        this: MatcherContext,
+        received: unknown,
+        ...expected: [] | [unknown]
+    ): MatcherResult {
+        return matchVariant(
+            this,
+            received,
+            "Some",
+            expected,
+            Option.isOption(received) && received.isSome()
+                ? [received.unwrap()]
+                : undefined
+        );
+    },
+    toBeNone(this: MatcherContext, received: unknown): MatcherResult {
+        return matchVariant(
+            this,
+            received,
+            "None",
+            [],
+            Option.isOption(received) && received.isNone() ? [] : undefined
+        );
+    },
+    toBeLeft(
+        this: MatcherContext,
+        received: unknown,
+        ...expected: [] | [unknown]
+    ): MatcherResult {
+        return matchVariant(
+            this,
+            received,
+            "Left",
+            expected,
+            Either.isEither(received) && received.isLeft()
+                ? [received.unwrapLeft()]
+                : undefined
+        );
+    },
+    toBeRight(
+        this: MatcherContext,
+        received: unknown,
+        ...expected: [] | [unknown]
+    ): MatcherResult {
+        return matchVariant(
+            this,
+            received,
+            "Right",
+            expected,
+            Either.isEither(received) && received.isRight()
+                ? [received.unwrapRight()]
+                : undefined
+        );
+    },
+};